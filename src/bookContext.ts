@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {GlossaryEntry} from './glossary';
+import {ChapterDocument, getDocumentHeadings} from './chapterDocument';
+import {NarrationLanguage} from './language';
+
+/**
+ * 本の構成（アウトライン）の1項目
+ */
+export interface BookOutlineItem {
+    order: number;
+    title: string;
+    fileName: string;
+}
+
+/**
+ * 本全体の情報
+ */
+export interface BookContext {
+    title: string;
+    author?: string;
+    outline: BookOutlineItem[];
+}
+
+/**
+ * ナレーション対象のチャプターが本の中のどこに位置するかを表す情報
+ */
+export interface ChapterContext {
+    book: BookContext;
+    index: number;           // 0始まりのチャプター位置
+    total: number;
+    title: string;
+    previousRecap?: string;  // 前のチャプターの振り返り
+    glossary?: GlossaryEntry[];  // このチャプターに登場する用語
+}
+
+// 振り返りとして渡す前章ナレーションの最大文字数
+const RECAP_MAX_LENGTH = 400;
+
+/**
+ * ファイル名からチャプタータイトルを取得（番号部分と拡張子を除去）
+ */
+function titleFromFileName(fileName: string): string {
+    const baseName = path.basename(fileName, '.txt');
+    const match = baseName.match(/^\d+-(.+)$/);
+    return match ? match[1] : baseName;
+}
+
+/**
+ * chapters-metadata.jsonと書籍メタデータから本の構成を組み立てる
+ * @param extractedDir 抽出済みチャプターのディレクトリ（chapters-metadata.jsonの保存先）
+ * @param metadata EpubReader.getMetadataの戻り値
+ * @param validFiles ナレーション対象のチャプターファイル
+ */
+export function buildBookContext(extractedDir: string, metadata: any, validFiles: string[]): BookContext {
+    const titlesByFileName = new Map<string, string>();
+
+    const metadataPath = path.join(extractedDir, 'chapters-metadata.json');
+    if (fs.existsSync(metadataPath)) {
+        try {
+            const chaptersMetadata = JSON.parse(fs.readFileSync(metadataPath, 'utf8'));
+            for (const chapter of chaptersMetadata.chapters || []) {
+                titlesByFileName.set(chapter.fileName, chapter.extractedTitle || chapter.originalTitle);
+            }
+        } catch (error) {
+            console.warn(`チャプターメタデータの読み込みに失敗しました: ${metadataPath}`);
+        }
+    }
+
+    // 目次のうち、実際にナレーションするチャプターだけでアウトラインを作る
+    const outline = validFiles.map((file, index) => {
+        const fileName = path.basename(file);
+        return {
+            order: index + 1,
+            title: titlesByFileName.get(fileName) || titleFromFileName(fileName),
+            fileName
+        };
+    });
+
+    return {
+        title: metadata.title,
+        author: metadata.creator,
+        outline
+    };
+}
+
+/**
+ * 前章のナレーションの末尾から振り返り用のテキストを作る
+ */
+export function createRecapFromNarration(narration: string): string {
+    const trimmed = narration.trim();
+    if (trimmed.length <= RECAP_MAX_LENGTH) {
+        return trimmed;
+    }
+
+    // 文の途中から始まらないよう、句点の直後で切る
+    const tail = trimmed.slice(-RECAP_MAX_LENGTH);
+    const sentenceStart = tail.search(/[。！？.!?]\s*/);
+    return sentenceStart >= 0 ? tail.slice(sentenceStart + 1).trim() : tail;
+}
+
+/**
+ * 前章の文書モデルに含まれる見出し（h1〜h3）から振り返り用のテキストを作る
+ * 前章のナレーションがまだない場合（並列処理時など）に使用
+ * @param language ナレーションの言語（システムプロンプトに埋め込むため、出力言語で書く）
+ */
+export function createRecapFromSource(document: ChapterDocument, language: NarrationLanguage = 'ja'): string {
+    const headings = Array.from(new Set(getDocumentHeadings(document, 3))).slice(0, 8);
+
+    if (headings.length === 0) {
+        return '';
+    }
+
+    return language === 'en'
+        ? `The previous chapter covered topics such as "${headings.join('", "')}".`
+        : `前の章では「${headings.join('」「')}」といった内容を扱いました。`;
+}
+
+/**
+ * チャプターの位置づけをシステムプロンプトに追加するためのテキストを生成
+ * @param language ナレーションの言語（出力言語のテンプレートに埋め込むため、出力言語で書く）
+ */
+export function buildChapterContextPrompt(context: ChapterContext, language: NarrationLanguage = 'ja'): string {
+    if (language === 'en') {
+        return buildEnglishChapterContextPrompt(context);
+    }
+
+    const {book, index, total, title} = context;
+    const lines: string[] = ['### この章の位置づけ：', ''];
+
+    lines.push(`- 書籍名：「${book.title}」${book.author ? `（著者：${book.author}）` : ''}`);
+    lines.push(`- この章は全${total}章中の第${index + 1}章「${title}」です`);
+
+    if (index === 0) {
+        lines.push('- これは最初の章なので、本全体の概要にも触れてください');
+    } else if (index === total - 1) {
+        lines.push('- これは最後の章なので、本全体のまとめも含めてください');
+    }
+
+    lines.push('', '本全体の構成：');
+    for (const item of book.outline) {
+        lines.push(`${item.order}. ${item.title}${item.order === index + 1 ? '  ← この章' : ''}`);
+    }
+
+    if (context.previousRecap) {
+        lines.push('', '前の章の終わり（話のつながりの参考にしてください。繰り返す必要はありません）：', context.previousRecap);
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * チャプターの位置づけの英語版
+ */
+function buildEnglishChapterContextPrompt(context: ChapterContext): string {
+    const {book, index, total, title} = context;
+    const lines: string[] = ['### Where this chapter fits:', ''];
+
+    lines.push(`- Book: "${book.title}"${book.author ? ` by ${book.author}` : ''}`);
+    lines.push(`- This is chapter ${index + 1} of ${total}: "${title}"`);
+
+    if (index === 0) {
+        lines.push('- This is the first chapter, so also give an overview of the whole book');
+    } else if (index === total - 1) {
+        lines.push('- This is the last chapter, so also include a wrap-up of the whole book');
+    }
+
+    lines.push('', 'Outline of the whole book:');
+    for (const item of book.outline) {
+        lines.push(`${item.order}. ${item.title}${item.order === index + 1 ? '  <- this chapter' : ''}`);
+    }
+
+    if (context.previousRecap) {
+        lines.push('', 'End of the previous chapter (for continuity only; no need to repeat it):', context.previousRecap);
+    }
+
+    return lines.join('\n');
+}
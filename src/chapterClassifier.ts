@@ -0,0 +1,213 @@
+/**
+ * チャプターの分類ラベル
+ * body・preface・appendixは既定でナレーションの対象、それ以外（前付け・後付け）は対象外
+ */
+export type ChapterLabel =
+    | 'body'
+    | 'preface'
+    | 'appendix'
+    | 'cover'
+    | 'toc'
+    | 'copyright'
+    | 'colophon'
+    | 'index'
+    | 'about-author'
+    | 'afterword'
+    | 'bibliography'
+    | 'ads'
+    | 'frontmatter'
+    | 'backmatter'
+    | 'no-heading';
+
+export const CHAPTER_LABELS: ChapterLabel[] = [
+    'body', 'preface', 'appendix', 'cover', 'toc', 'copyright', 'colophon', 'index',
+    'about-author', 'afterword', 'bibliography', 'ads', 'frontmatter', 'backmatter', 'no-heading'
+];
+
+// 既定でナレーションの対象とするラベル
+const NARRATED_LABELS: ChapterLabel[] = ['body', 'preface', 'appendix'];
+
+/**
+ * ランドマークから分かるチャプターの位置
+ */
+export type ChapterMatter = 'cover' | 'toc' | 'frontmatter' | 'bodymatter' | 'backmatter';
+
+/**
+ * 分類の結果
+ */
+export interface ChapterClassification {
+    label: ChapterLabel;
+    reason: string;      // 分類の根拠（一覧に表示する）
+}
+
+/**
+ * 分類に使うチャプターの情報
+ */
+export interface ClassifierInput {
+    title: string;           // 目次のタイトル
+    extractedTitle: string;  // 本文の見出しから取り出したタイトル
+    content: string;         // チャプターのHTML
+    matter?: ChapterMatter;
+}
+
+// 本文中のepub:typeとラベルの対応（前付け・本文・後付けの区分より優先する個別の種類）
+const EPUB_TYPE_LABELS: Record<string, ChapterLabel> = {
+    'cover': 'cover',
+    'toc': 'toc',
+    'copyright-page': 'copyright',
+    'colophon': 'colophon',
+    'index': 'index',
+    'bibliography': 'bibliography',
+    'contributors': 'about-author',
+    'preface': 'preface',
+    'foreword': 'preface',
+    'introduction': 'preface',
+    'prologue': 'preface',
+    'appendix': 'appendix',
+    'afterword': 'afterword',
+    'acknowledgments': 'afterword',
+    'glossary': 'backmatter',
+    'chapter': 'body',
+    'part': 'body'
+};
+
+// 前付け・本文・後付けの区分のepub:type（個別の種類が見つからない場合にだけ使う）
+const EPUB_DIVISION_LABELS: Record<string, ChapterLabel> = {
+    'frontmatter': 'frontmatter',
+    'bodymatter': 'body',
+    'backmatter': 'backmatter'
+};
+
+// タイトルのパターンとラベルの対応（上から順に判定する）
+const TITLE_PATTERNS: {pattern: RegExp; label: ChapterLabel}[] = [
+    {pattern: /^(表紙|カバー|cover)$/i, label: 'cover'},
+    {pattern: /^(目次|もくじ|contents|table of contents)$/i, label: 'toc'},
+    {pattern: /^(著作権|著作権表示|版権|copyright|copyright page|copyright notice)$/i, label: 'copyright'},
+    {pattern: /^(奥付|colophon)$/i, label: 'colophon'},
+    {pattern: /^(索引|さくいん|index)$/i, label: 'index'},
+    {pattern: /^(著者紹介|著者について|著者略歴|訳者紹介|監訳者紹介|執筆者紹介|著者・訳者紹介|about the (authors?|translators?))$/i, label: 'about-author'},
+    {pattern: /^((訳者|監訳者)?あとがき|後書き|謝辞|acknowledge?ments?|afterword)$/i, label: 'afterword'},
+    {pattern: /^(参考文献|文献|bibliography|references)$/i, label: 'bibliography'},
+    {pattern: /^(広告|既刊|既刊案内|好評発売中|新刊案内|also by .+|other books by .+)$/i, label: 'ads'},
+    {pattern: /^(はじめに|まえがき|序文|本書について|本書の使い方|推薦の(言葉|ことば)|preface|foreword|introduction)$/i, label: 'preface'},
+    {pattern: /^(付録|appendix)/i, label: 'appendix'}
+];
+
+// リンクのテキストが本文に占める割合がこれを超えると目次とみなす
+const TOC_LINK_RATIO = 0.6;
+// 目次・索引とみなすのに必要な項目（リンク・行）の数
+const MIN_LIST_ENTRIES = 5;
+// ページ番号で終わる行の割合がこれを超えると索引とみなす
+const INDEX_LINE_RATIO = 0.5;
+// ISBNを含む短いページを奥付とみなす文字数の上限
+const COLOPHON_MAX_LENGTH = 2000;
+
+/**
+ * HTMLタグを除いて空白をまとめたテキストを取得
+ */
+function stripTags(html: string): string {
+    return html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * 内容の統計（文字数・リンクの割合・ページ番号で終わる行など）から分類する
+ */
+function classifyByContent(content: string): ChapterClassification | null {
+    const text = stripTags(content);
+
+    if (text.length === 0) {
+        return /<(img|svg|image)\b/i.test(content)
+            ? {label: 'cover', reason: '本文がなく画像のみ'}
+            : {label: 'no-heading', reason: '本文がない'};
+    }
+
+    const links = content.match(/<a\b[^>]*>[\s\S]*?<\/a>/gi) || [];
+    const linkTextLength = links.reduce((sum, link) => sum + stripTags(link).length, 0);
+    if (links.length >= MIN_LIST_ENTRIES && linkTextLength / text.length > TOC_LINK_RATIO) {
+        return {label: 'toc', reason: `本文の${Math.round(linkTextLength / text.length * 100)}%がリンク`};
+    }
+
+    const lines = (content.match(/<(p|li|dd|dt|div)\b[^>]*>[\s\S]*?<\/\1>/gi) || [])
+        .map(stripTags)
+        .filter(line => line.length > 0);
+    const pageLines = lines.filter(line => /[\s,、]\d{1,4}(\s*[-–,、]\s*\d{1,4})*$/.test(line));
+    if (pageLines.length >= MIN_LIST_ENTRIES && pageLines.length / lines.length > INDEX_LINE_RATIO) {
+        return {label: 'index', reason: `${lines.length}行中${pageLines.length}行がページ番号で終わる`};
+    }
+
+    if (text.length <= COLOPHON_MAX_LENGTH && /ISBN[\s:：-]*[\dX-]{10,}/i.test(text)) {
+        return {label: 'colophon', reason: 'ISBNを含む短いページ'};
+    }
+
+    if (!/<h[1-3][^>]*>/i.test(content)) {
+        return {label: 'no-heading', reason: 'h1/h2/h3タグがない'};
+    }
+
+    return null;
+}
+
+/**
+ * チャプターを本文・前付け・後付けなどに分類する
+ * 本文中のepub:type、タイトルのパターン、ランドマーク、内容の統計の順に判定する
+ * ランドマークで本文（bodymatter）とされたチャプターは、タイトルだけでは前付け・後付けにしない
+ */
+export function classifyChapter(input: ClassifierInput): ChapterClassification {
+    // pagebreak・noterefなど分類に関係しないepub:typeもあるため、すべての属性の値を順に確認する
+    // "backmatter appendix"のように区分と個別の種類が並ぶ場合は個別の種類（appendix）を優先する
+    const epubTypes = Array.from(input.content.matchAll(/epub:type\s*=\s*["']([^"']+)["']/gi))
+        .flatMap(match => match[1].split(/\s+/));
+    const specificType = epubTypes.find(token => EPUB_TYPE_LABELS[token]);
+    if (specificType) {
+        return {label: EPUB_TYPE_LABELS[specificType], reason: `epub:type="${specificType}"`};
+    }
+    const divisionType = epubTypes.find(token => EPUB_DIVISION_LABELS[token]);
+    if (divisionType) {
+        return {label: EPUB_DIVISION_LABELS[divisionType], reason: `epub:type="${divisionType}"`};
+    }
+
+    const titles = input.matter === 'bodymatter' ? [] : [input.title, input.extractedTitle];
+    for (const title of titles) {
+        const normalized = title.trim();
+        const matched = TITLE_PATTERNS.find(({pattern}) => pattern.test(normalized));
+        if (matched) {
+            return {label: matched.label, reason: `タイトル「${normalized}」`};
+        }
+    }
+
+    if (input.matter && input.matter !== 'bodymatter') {
+        return {label: input.matter, reason: `ランドマーク（${input.matter}）`};
+    }
+
+    return classifyByContent(input.content) || {label: 'body', reason: '本文'};
+}
+
+/**
+ * 既定でナレーションの対象となるラベルか
+ */
+export function isNarratedLabel(label: ChapterLabel): boolean {
+    return NARRATED_LABELS.includes(label);
+}
+
+/**
+ * --include / --exclude の指定（"copyright,5,12"のようなラベルかチャプター番号のカンマ区切り）を分解
+ * @returns 不明なラベルが含まれている場合はその値をinvalidに入れる
+ */
+export function parseChapterOverrides(value: string): {tokens: string[]; invalid: string[]} {
+    const tokens = value.split(',').map(token => token.trim()).filter(token => token.length > 0);
+    const invalid = tokens.filter(token => !/^\d+$/.test(token) && !CHAPTER_LABELS.includes(token as ChapterLabel));
+    return {tokens, invalid};
+}
+
+/**
+ * 分類と --include / --exclude の指定から、チャプターをナレーションするかを決める
+ * ラベルでの指定よりチャプター番号での指定を優先し、同じ種類の指定では除外を優先する
+ */
+export function shouldNarrateChapter(label: ChapterLabel, order: number, include: string[], exclude: string[]): boolean {
+    const matchesNumber = (tokens: string[]) => tokens.some(token => /^\d+$/.test(token) && parseInt(token, 10) === order);
+
+    if (matchesNumber(exclude)) return false;
+    if (matchesNumber(include)) return true;
+    if (exclude.includes(label)) return false;
+    if (include.includes(label)) return true;
+    return isNarratedLabel(label);
+}
@@ -0,0 +1,445 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as cheerio from 'cheerio';
+
+// cheerioのノードの型定義
+type DomNode = any;
+
+/**
+ * チャプターを構成するブロック
+ */
+export type DocumentBlock =
+    | {type: 'heading'; level: number; text: string}
+    | {type: 'paragraph'; text: string}
+    | {type: 'list'; ordered: boolean; items: ListItem[]}
+    | {type: 'code'; language?: string; caption?: string; code: string}
+    | {type: 'table'; caption?: string; header: string[]; rows: string[][]}
+    | {type: 'figure'; caption?: string; alt?: string}
+    | {type: 'footnote'; id?: string; text: string}
+    | {type: 'aside'; title?: string; blocks: DocumentBlock[]}
+    | {type: 'quote'; text: string};
+
+/**
+ * 表のブロック
+ */
+export type TableBlock = Extract<DocumentBlock, {type: 'table'}>;
+
+/**
+ * 箇条書きの項目（入れ子の項目はlevelを1つずつ深くして平坦に並べる）
+ */
+export interface ListItem {
+    text: string;
+    level: number;
+}
+
+/**
+ * チャプターの文書モデル（XX-タイトル.document.jsonに保存する）
+ */
+export interface ChapterDocument {
+    version: 1;
+    title: string;
+    order: number;
+    href: string;
+    blocks: DocumentBlock[];
+}
+
+// ブロックとして扱う要素（これらを含む要素は入れ物として中をたどる）
+const BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, ul, ol, dl, pre, table, figure, img, blockquote, aside, section, article, div, header, footer, nav, main, hr';
+
+// 読み飛ばす要素
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'iframe', 'svg', 'hr', 'head', 'title']);
+
+// 脚注を表すepub:type・role
+const FOOTNOTE_TYPES = ['footnote', 'endnote', 'rearnote', 'doc-footnote', 'doc-endnote'];
+const FOOTNOTE_LIST_TYPES = ['footnotes', 'endnotes', 'rearnotes', 'doc-endnotes'];
+
+/**
+ * 要素のepub:typeとroleを空白区切りで分解
+ */
+function getSemanticTypes($el: cheerio.Cheerio<DomNode>): string[] {
+    return `${$el.attr('epub:type') || ''} ${$el.attr('role') || ''}`.split(/\s+/).filter(Boolean);
+}
+
+/**
+ * 空白をまとめたテキストを取得
+ */
+function normalizeText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * コードブロックの言語をclass（language-xxx・lang-xxx）やdata属性から取得
+ */
+function detectCodeLanguage($pre: cheerio.Cheerio<DomNode>): string | undefined {
+    for (const $el of [$pre, $pre.find('code').first()]) {
+        const explicit = $el.attr('data-lang') || $el.attr('data-language');
+        if (explicit) return explicit;
+
+        const match = ($el.attr('class') || '').match(/(?:^|\s)(?:language|lang|highlight)-([\w+#.-]+)/);
+        if (match) return match[1];
+    }
+    return undefined;
+}
+
+/**
+ * HTMLのチャプターを文書モデルのブロックに変換する
+ */
+class BlockParser {
+    constructor(private $: cheerio.CheerioAPI) {}
+
+    /**
+     * ノードの並びをブロックに変換（ブロックの間にある文字や行内の要素は段落にまとめる）
+     */
+    parse(nodes: DomNode[]): DocumentBlock[] {
+        const blocks: DocumentBlock[] = [];
+        let inline = '';
+
+        const flush = () => {
+            const text = normalizeText(inline);
+            if (text) blocks.push({type: 'paragraph', text});
+            inline = '';
+        };
+
+        for (const node of nodes) {
+            if (node.type === 'text') {
+                inline += node.data;
+                continue;
+            }
+            if (node.type !== 'tag') continue;
+
+            const tag = node.name.toLowerCase();
+            if (SKIPPED_TAGS.has(tag)) continue;
+            if (tag === 'br') {
+                inline += ' ';
+                continue;
+            }
+
+            const $el = this.$(node);
+            const element = this.parseElement(tag, $el);
+            if (element === null) {
+                // ブロックを含まない行内の要素は段落の一部にする
+                inline += $el.text();
+                continue;
+            }
+
+            flush();
+            blocks.push(...element);
+        }
+
+        flush();
+        return blocks;
+    }
+
+    /**
+     * ブロック要素を変換
+     * @returns 行内の要素の場合はnull
+     */
+    private parseElement(tag: string, $el: cheerio.Cheerio<DomNode>): DocumentBlock[] | null {
+        const semanticTypes = getSemanticTypes($el);
+
+        if (semanticTypes.some(type => FOOTNOTE_LIST_TYPES.includes(type))) {
+            return this.parseFootnoteList($el);
+        }
+        if (semanticTypes.some(type => FOOTNOTE_TYPES.includes(type))) {
+            const text = normalizeText($el.text());
+            return text ? [{type: 'footnote', id: $el.attr('id'), text}] : [];
+        }
+
+        const headingMatch = tag.match(/^h([1-6])$/);
+        if (headingMatch) {
+            const text = normalizeText($el.text());
+            return text ? [{type: 'heading', level: parseInt(headingMatch[1], 10), text}] : [];
+        }
+
+        switch (tag) {
+            case 'p': {
+                const text = normalizeText($el.text());
+                if (!text && $el.find('img').length > 0) {
+                    return [this.parseFigure($el)];
+                }
+                return text ? [{type: 'paragraph', text}] : [];
+            }
+            case 'ul':
+            case 'ol':
+                return [{type: 'list', ordered: tag === 'ol', items: this.parseListItems($el, 0)}];
+            case 'dl':
+                return [{type: 'list', ordered: false, items: this.parseDefinitionList($el)}];
+            case 'pre':
+                return [{type: 'code', language: detectCodeLanguage($el), code: $el.text().replace(/^\n+|\s+$/g, '')}];
+            case 'table':
+                return [this.parseTable($el)];
+            case 'figure':
+                return this.parseFigureElement($el);
+            case 'img':
+                return [this.parseFigure($el)];
+            case 'blockquote': {
+                const text = normalizeText($el.text());
+                return text ? [{type: 'quote', text}] : [];
+            }
+            case 'aside': {
+                const blocks = this.parse($el.contents().toArray());
+                const title = blocks[0]?.type === 'heading' ? (blocks.shift() as {text: string}).text : undefined;
+                return blocks.length > 0 || title ? [{type: 'aside', title, blocks}] : [];
+            }
+        }
+
+        // ブロックを含む要素（section・divなど）は入れ物として中をたどる
+        if ($el.find(BLOCK_SELECTOR).length > 0 || BLOCK_SELECTOR.split(', ').includes(tag)) {
+            return this.parse($el.contents().toArray());
+        }
+        return null;
+    }
+
+    /**
+     * 箇条書きの項目を取得（入れ子の箇条書きは1段深い項目として続けて並べる）
+     */
+    private parseListItems($list: cheerio.Cheerio<DomNode>, level: number): ListItem[] {
+        const items: ListItem[] = [];
+        $list.children('li').each((_, li) => {
+            const $li = this.$(li);
+            const $nested = $li.children('ul, ol');
+            const text = normalizeText($li.clone().children('ul, ol').remove().end().text());
+            if (text) items.push({text, level});
+            $nested.each((__, nested) => {
+                items.push(...this.parseListItems(this.$(nested), level + 1));
+            });
+        });
+        return items;
+    }
+
+    /**
+     * 定義リストを「用語：説明」の項目に変換
+     */
+    private parseDefinitionList($dl: cheerio.Cheerio<DomNode>): ListItem[] {
+        const items: ListItem[] = [];
+        $dl.children('dt, dd').each((_, el) => {
+            const text = normalizeText(this.$(el).text());
+            if (!text) return;
+            if (el.name === 'dd' && items.length > 0) {
+                items[items.length - 1].text += `：${text}`;
+            } else {
+                items.push({text, level: 0});
+            }
+        });
+        return items;
+    }
+
+    /**
+     * 表を見出し行とデータ行に分けて取得
+     */
+    private parseTable($table: cheerio.Cheerio<DomNode>, fallbackCaption?: string): DocumentBlock {
+        const caption = normalizeText($table.children('caption').text()) || fallbackCaption;
+        const rowOf = (tr: DomNode) => this.$(tr).children('th, td').toArray().map(cell => normalizeText(this.$(cell).text()));
+
+        let header: string[] = [];
+        let rows = $table.find('tr').toArray().filter(tr => this.$(tr).closest('table').is($table));
+        const $headRows = $table.children('thead').children('tr');
+        if ($headRows.length > 0) {
+            header = rowOf($headRows.last().get(0));
+            rows = rows.filter(tr => !this.$(tr).parent().is('thead'));
+        } else if (rows.length > 0 && this.$(rows[0]).children('td').length === 0) {
+            header = rowOf(rows[0]);
+            rows = rows.slice(1);
+        }
+
+        return {type: 'table', caption, header, rows: rows.map(rowOf).filter(row => row.some(cell => cell.length > 0))};
+    }
+
+    /**
+     * figure要素を変換（中に表やコードがある場合はキャプション付きの表・コードにする）
+     */
+    private parseFigureElement($figure: cheerio.Cheerio<DomNode>): DocumentBlock[] {
+        const caption = normalizeText($figure.find('figcaption').text()) || undefined;
+
+        const $table = $figure.find('table').first();
+        if ($table.length > 0) {
+            return [this.parseTable($table, caption)];
+        }
+
+        const $pre = $figure.find('pre').first();
+        if ($pre.length > 0) {
+            return [{type: 'code', language: detectCodeLanguage($pre), caption, code: $pre.text().replace(/^\n+|\s+$/g, '')}];
+        }
+
+        return [this.parseFigure($figure, caption)];
+    }
+
+    /**
+     * 画像をキャプション・代替テキスト付きの図に変換
+     */
+    private parseFigure($el: cheerio.Cheerio<DomNode>, caption?: string): DocumentBlock {
+        const $img = $el.is('img') ? $el : $el.find('img').first();
+        const alt = normalizeText($img.attr('alt') || '') || undefined;
+        return {type: 'figure', caption, alt};
+    }
+
+    /**
+     * 脚注の一覧（epub:type="footnotes"など）を脚注ごとに分ける
+     */
+    private parseFootnoteList($el: cheerio.Cheerio<DomNode>): DocumentBlock[] {
+        const $notes = $el.find('li, aside').filter((_, note) => this.$(note).find('li, aside').length === 0);
+        if ($notes.length === 0) {
+            const text = normalizeText($el.text());
+            return text ? [{type: 'footnote', id: $el.attr('id'), text}] : [];
+        }
+        return $notes.toArray()
+            .map(note => ({type: 'footnote' as const, id: this.$(note).attr('id'), text: normalizeText(this.$(note).text())}))
+            .filter(note => note.text.length > 0);
+    }
+}
+
+/**
+ * チャプターのHTMLを文書モデルに変換する
+ */
+export function parseChapterDocument(html: string, info: {title: string; order: number; href: string}): ChapterDocument {
+    // 自己終了タグ（<span id="p1"/>など）を正しく扱うためにhtmlparser2で解析する
+    const $ = cheerio.load(html, {xml: {xmlMode: false, recognizeSelfClosing: true, decodeEntities: true}});
+    const root = $('body').length > 0 ? $('body').contents().toArray() : $.root().contents().toArray();
+    return {version: 1, ...info, blocks: new BlockParser($).parse(root)};
+}
+
+/**
+ * プレーンテキスト（Markdown形式の見出しと空行区切りの段落）を文書モデルに変換する
+ */
+function parsePlainTextDocument(text: string, info: {title: string; order: number; href: string}): ChapterDocument {
+    const blocks: DocumentBlock[] = text
+        .split(/\n\s*\n/)
+        .map(part => part.trim())
+        .filter(part => part.length > 0)
+        .map(part => {
+            const heading = part.match(/^(#{1,6})\s+(.+)$/);
+            return heading
+                ? {type: 'heading' as const, level: heading[1].length, text: heading[2].trim()}
+                : {type: 'paragraph' as const, text: normalizeText(part)};
+        });
+    return {version: 1, ...info, blocks};
+}
+
+/**
+ * 文書モデルの保存先のパスを取得（XX-タイトル.txt → XX-タイトル.document.json）
+ */
+export function getDocumentPath(chapterFile: string): string {
+    return path.join(path.dirname(chapterFile), `${path.basename(chapterFile, '.txt')}.document.json`);
+}
+
+/**
+ * Markdownの保存先のパスを取得（XX-タイトル.txt → XX-タイトル.md）
+ */
+export function getMarkdownPath(chapterFile: string): string {
+    return path.join(path.dirname(chapterFile), `${path.basename(chapterFile, '.txt')}.md`);
+}
+
+/**
+ * 文書モデルをJSONとして保存し、人が読むためのMarkdownも書き出す
+ */
+export function saveChapterDocument(document: ChapterDocument, chapterFile: string): void {
+    fs.writeFileSync(getDocumentPath(chapterFile), JSON.stringify(document, null, 2), 'utf8');
+    fs.writeFileSync(getMarkdownPath(chapterFile), renderMarkdown(document), 'utf8');
+}
+
+/**
+ * 保存済みの文書モデルを読み込む（存在しない・壊れている場合はnull）
+ */
+export function loadSavedChapterDocument(chapterFile: string): ChapterDocument | null {
+    const documentPath = getDocumentPath(chapterFile);
+    if (!fs.existsSync(documentPath)) {
+        return null;
+    }
+
+    try {
+        const document: ChapterDocument = JSON.parse(fs.readFileSync(documentPath, 'utf8'));
+        return Array.isArray(document.blocks) ? document : null;
+    } catch (error) {
+        console.warn(`文書モデルの読み込みに失敗しました: ${documentPath} (${error})`);
+        return null;
+    }
+}
+
+/**
+ * チャプターの文書モデルを取得
+ * 保存済みの文書モデルがなければ（以前のバージョンで抽出したチャプターなど）、テキストファイルの内容から作る
+ */
+export function loadChapterDocument(chapterFile: string): ChapterDocument {
+    const saved = loadSavedChapterDocument(chapterFile);
+    if (saved) {
+        return saved;
+    }
+
+    const content = fs.readFileSync(chapterFile, 'utf8');
+    const baseName = path.basename(chapterFile, '.txt');
+    const match = baseName.match(/^(\d+)-(.+)$/);
+    const info = {title: match ? match[2] : baseName, order: match ? parseInt(match[1], 10) : 0, href: ''};
+    return /<\/?[a-z][\s\S]*>/i.test(content) ? parseChapterDocument(content, info) : parsePlainTextDocument(content, info);
+}
+
+/**
+ * Markdownの表のセルで使えない文字をエスケープ
+ */
+function escapeTableCell(cell: string): string {
+    return cell.replace(/\|/g, '\\|');
+}
+
+/**
+ * ブロックをMarkdownに変換
+ */
+function renderBlockMarkdown(block: DocumentBlock, footnoteIndex: number): string {
+    switch (block.type) {
+        case 'heading':
+            return `${'#'.repeat(block.level)} ${block.text}`;
+        case 'paragraph':
+            return block.text;
+        case 'list': {
+            const counters: number[] = [];
+            return block.items.map(item => {
+                counters[item.level] = (counters[item.level] || 0) + 1;
+                counters.length = item.level + 1;
+                return `${'  '.repeat(item.level)}${block.ordered ? `${counters[item.level]}.` : '-'} ${item.text}`;
+            }).join('\n');
+        }
+        case 'code':
+            return `${block.caption ? `*${block.caption}*\n\n` : ''}\`\`\`${block.language || ''}\n${block.code}\n\`\`\``;
+        case 'table': {
+            const width = Math.max(block.header.length, ...block.rows.map(row => row.length), 1);
+            const pad = (row: string[]) => Array.from({length: width}, (_, i) => escapeTableCell(row[i] || ''));
+            const header = block.header.length > 0 ? block.header : new Array(width).fill('');
+            const lines = [
+                `| ${pad(header).join(' | ')} |`,
+                `|${' --- |'.repeat(width)}`,
+                ...block.rows.map(row => `| ${pad(row).join(' | ')} |`)
+            ];
+            return `${block.caption ? `*${block.caption}*\n\n` : ''}${lines.join('\n')}`;
+        }
+        case 'figure':
+            return `*図: ${block.caption || block.alt || '（説明なし）'}*`;
+        case 'footnote':
+            return `[^${block.id || footnoteIndex}]: ${block.text}`;
+        case 'aside': {
+            const inner = [block.title ? `**${block.title}**` : '', ...block.blocks.map(child => renderBlockMarkdown(child, footnoteIndex))]
+                .filter(Boolean)
+                .join('\n\n');
+            return inner.split('\n').map(line => line ? `> ${line}` : '>').join('\n');
+        }
+        case 'quote':
+            return `> ${block.text}`;
+    }
+}
+
+/**
+ * 文書モデルを人が読むためのMarkdownに変換
+ */
+export function renderMarkdown(document: ChapterDocument): string {
+    let footnoteIndex = 0;
+    return document.blocks
+        .map(block => renderBlockMarkdown(block, block.type === 'footnote' ? ++footnoteIndex : footnoteIndex))
+        .join('\n\n') + '\n';
+}
+
+/**
+ * 文書モデルの見出しを取得
+ * @param maxLevel 取得する見出しの最も深いレベル
+ */
+export function getDocumentHeadings(document: ChapterDocument, maxLevel: number): string[] {
+    return document.blocks
+        .filter((block): block is Extract<DocumentBlock, {type: 'heading'}> => block.type === 'heading' && block.level <= maxLevel)
+        .map(block => block.text);
+}
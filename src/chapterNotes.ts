@@ -0,0 +1,256 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * チャプター内で言及された参考文献・資料
+ */
+export interface ChapterReference {
+    title: string;
+    description?: string;
+}
+
+/**
+ * チャプターの番組ノート（要約・要点・キーワード・参考文献）
+ * _narratedディレクトリに narrated_XX-タイトル.notes.json として保存され、RSSやチャプター情報に使われる
+ */
+export interface ChapterNotes {
+    version: 1;
+    summary: string;       // 2〜3文の要約
+    takeaways: string[];   // 要点
+    keywords: string[];
+    references: ChapterReference[];
+}
+
+/**
+ * LLMに出力させる構造化されたナレーション
+ */
+export interface StructuredNarration {
+    narration: string;
+    summary: string;
+    takeaways: string[];
+    keywords: string[];
+    references: ChapterReference[];
+}
+
+/**
+ * 構造化出力の解析結果
+ * 解析・検証に失敗した場合はvalueがnullになり、errorsに理由が入る
+ */
+export interface StructuredNarrationResult {
+    value: StructuredNarration | null;
+    errors: string[];
+}
+
+/**
+ * 検証に使うJSON Schemaのサブセット（type / required / properties / items / minLength / minItems）
+ */
+interface JsonSchema {
+    type: 'object' | 'array' | 'string';
+    description?: string;
+    required?: string[];
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    minLength?: number;
+    minItems?: number;
+}
+
+/**
+ * 構造化されたナレーションのスキーマ（プロンプトにもそのまま埋め込む）
+ */
+export const STRUCTURED_NARRATION_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['narration', 'summary', 'takeaways', 'keywords', 'references'],
+    properties: {
+        narration: {type: 'string', minLength: 1, description: '音声用のナレーション本文'},
+        summary: {type: 'string', minLength: 1, description: 'チャプターの内容を2〜3文で要約したもの'},
+        takeaways: {type: 'array', minItems: 1, items: {type: 'string', minLength: 1}, description: '聞き手が持ち帰るべき要点（3〜5個）'},
+        keywords: {type: 'array', items: {type: 'string', minLength: 1}, description: 'チャプターのキーワード（5〜10個）'},
+        references: {
+            type: 'array',
+            description: '本文で言及された書籍・論文・ツールなど（なければ空配列）',
+            items: {
+                type: 'object',
+                required: ['title'],
+                properties: {
+                    title: {type: 'string', minLength: 1},
+                    description: {type: 'string'}
+                }
+            }
+        }
+    }
+};
+
+/**
+ * 値がスキーマに合っているか検証する
+ * @returns エラーメッセージの一覧（問題がなければ空配列）
+ */
+function validateAgainstSchema(value: unknown, schema: JsonSchema, location: string): string[] {
+    switch (schema.type) {
+        case 'string':
+            if (typeof value !== 'string') {
+                return [`${location} は文字列である必要があります`];
+            }
+            if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+                return [`${location} が空です`];
+            }
+            return [];
+        case 'array': {
+            if (!Array.isArray(value)) {
+                return [`${location} は配列である必要があります`];
+            }
+            const errors: string[] = [];
+            if (schema.minItems !== undefined && value.length < schema.minItems) {
+                errors.push(`${location} には${schema.minItems}個以上の要素が必要です`);
+            }
+            if (schema.items) {
+                value.forEach((item, index) => errors.push(...validateAgainstSchema(item, schema.items!, `${location}[${index}]`)));
+            }
+            return errors;
+        }
+        case 'object': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return [`${location} はオブジェクトである必要があります`];
+            }
+            const record = value as Record<string, unknown>;
+            const errors: string[] = [];
+            for (const key of schema.required || []) {
+                if (!(key in record)) {
+                    errors.push(`${location}.${key} がありません`);
+                }
+            }
+            for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+                if (key in record) {
+                    errors.push(...validateAgainstSchema(record[key], propertySchema, `${location}.${key}`));
+                }
+            }
+            return errors;
+        }
+    }
+}
+
+/**
+ * LLMの出力を構造化されたナレーションとして解析・検証する
+ * コードブロックで囲まれていても、最初の { から最後の } までをJSONとして読み取る
+ */
+export function parseStructuredNarration(content: string): StructuredNarrationResult {
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+        return {value: null, errors: ['JSONが見つかりません']};
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(content.slice(start, end + 1));
+    } catch (error) {
+        return {value: null, errors: [`JSONの解析に失敗しました (${(error as Error).message})`]};
+    }
+
+    const errors = validateAgainstSchema(parsed, STRUCTURED_NARRATION_SCHEMA, '$');
+    return errors.length === 0
+        ? {value: parsed as StructuredNarration, errors}
+        : {value: null, errors};
+}
+
+/**
+ * 構造化出力として解析できなかった出力から、ナレーション本文を取り出す
+ * スキーマには合わないがnarrationだけはあるJSONの場合はその値を、JSONでなければ出力全体を使う
+ */
+export function extractNarrationText(content: string): string {
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+        try {
+            const parsed = JSON.parse(content.slice(start, end + 1));
+            if (typeof parsed?.narration === 'string' && parsed.narration.trim().length > 0) {
+                return parsed.narration.trim();
+            }
+        } catch (error) {
+            // JSONでない場合はプレーンテキストとして扱う
+        }
+    }
+
+    return content.replace(/^```[a-z]*\n?|\n?```$/g, '').trim();
+}
+
+/**
+ * 構造化出力の形式を指示するプロンプトを生成
+ */
+export function buildStructuredOutputPrompt(): string {
+    return `### 出力形式：
+
+出力は次のJSON Schemaに従うJSONオブジェクトだけにしてください（前置きやコードブロックの記号は付けない）。
+ナレーション本文は "narration" に入れ、これまでの指示はすべて "narration" の内容に適用してください。
+"summary" などの各項目は、ナレーションと同じ言語で書いてください。
+
+${JSON.stringify(STRUCTURED_NARRATION_SCHEMA, null, 2)}`;
+}
+
+/**
+ * 分割して生成した複数の結果を1つにまとめる
+ * キーワードと参考文献は重複を除き、要約は各部分の要約をつなげる
+ */
+export function mergeStructuredNarrations(parts: StructuredNarration[]): StructuredNarration {
+    const unique = (items: string[]) => Array.from(new Set(items));
+    const references = new Map<string, ChapterReference>();
+    for (const reference of parts.flatMap(part => part.references)) {
+        if (!references.has(reference.title)) {
+            references.set(reference.title, reference);
+        }
+    }
+
+    return {
+        narration: parts.map(part => part.narration).join('\n\n'),
+        summary: parts.map(part => part.summary).join(' '),
+        takeaways: unique(parts.flatMap(part => part.takeaways)),
+        keywords: unique(parts.flatMap(part => part.keywords)),
+        references: Array.from(references.values())
+    };
+}
+
+/**
+ * 構造化されたナレーションから番組ノートを取り出す
+ */
+export function toChapterNotes(structured: StructuredNarration): ChapterNotes {
+    return {
+        version: 1,
+        summary: structured.summary,
+        takeaways: structured.takeaways,
+        keywords: structured.keywords,
+        references: structured.references
+    };
+}
+
+/**
+ * ナレーションテキストファイルに対応する番組ノートファイルのパスを取得
+ */
+export function getNotesPath(textFilePath: string): string {
+    return path.join(path.dirname(textFilePath), `${path.basename(textFilePath, '.txt')}.notes.json`);
+}
+
+/**
+ * 番組ノートをファイルに保存
+ */
+export function saveChapterNotes(notes: ChapterNotes, notesPath: string): void {
+    fs.writeFileSync(notesPath, JSON.stringify(notes, null, 2), 'utf8');
+}
+
+/**
+ * 番組ノートファイルを読み込む（存在しない・壊れている場合はnull）
+ */
+export function loadChapterNotes(notesPath: string): ChapterNotes | null {
+    if (!fs.existsSync(notesPath)) {
+        return null;
+    }
+
+    try {
+        const notes: ChapterNotes = JSON.parse(fs.readFileSync(notesPath, 'utf8'));
+        if (typeof notes.summary !== 'string') {
+            throw new Error('summaryが文字列ではありません');
+        }
+        return notes;
+    } catch (error) {
+        console.warn(`番組ノートの読み込みに失敗しました: ${notesPath} (${error})`);
+        return null;
+    }
+}
@@ -0,0 +1,153 @@
+import * as path from 'path';
+
+/**
+ * コマンドラインで指定するチャプターの範囲
+ * selectionは"3-7,12"のような番号・範囲・タイトルの一部のカンマ区切り、from / toは番号かタイトルの一部
+ */
+export interface ChapterRange {
+    selection?: string;
+    from?: string;
+    to?: string;
+}
+
+/**
+ * チャプター番号に解決した範囲
+ */
+export interface ResolvedChapterRange {
+    spans: {start: number; end: number}[];  // selectionの番号・範囲
+    titles: string[];                       // selectionのタイトルの一部（小文字）
+    from?: number;
+    to?: number;
+}
+
+/**
+ * 範囲が指定されているか
+ */
+export function hasChapterRange(range: ChapterRange): boolean {
+    return range.selection !== undefined || range.from !== undefined || range.to !== undefined;
+}
+
+/**
+ * 出力ファイル名やエピソード名に使う範囲の説明（例: "3-7,12"、"5〜"、"設計〜運用"）
+ */
+export function describeChapterRange(range: ChapterRange): string {
+    const parts: string[] = [];
+    if (range.selection !== undefined) {
+        parts.push(range.selection.replace(/\s+/g, ''));
+    }
+    if (range.from !== undefined || range.to !== undefined) {
+        parts.push(`${range.from ?? ''}〜${range.to ?? ''}`);
+    }
+    return parts.join('_');
+}
+
+/**
+ * ファイル名（XX-タイトル.txt、narrated_XX-タイトル.mp3、review_XX-タイトル.txtなど）からチャプター番号を取得
+ */
+export function getChapterOrder(file: string): number | null {
+    const match = path.basename(file).match(/^(?:narrated_|review_)?(\d+)-/);
+    return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * ファイル名からチャプターのタイトルを取得
+ */
+function getTitleFromFileName(file: string): string {
+    return path.basename(file).replace(/\.[^.]+$/, '').replace(/^(?:narrated_|review_)?\d+-/, '');
+}
+
+/**
+ * タイトルの一部に一致する最初のチャプターの番号を探す
+ */
+function findChapterByTitle(value: string, chapterTitles: Map<number, string[]>): number | null {
+    const needle = value.toLowerCase();
+    const orders = Array.from(chapterTitles.keys()).sort((a, b) => a - b);
+    return orders.find(order => chapterTitles.get(order)!.some(title => title.toLowerCase().includes(needle))) ?? null;
+}
+
+/**
+ * --from / --to の値をチャプター番号に解決
+ */
+function resolveBoundary(name: string, value: string, chapterTitles: Map<number, string[]>): number {
+    if (/^\d+$/.test(value)) {
+        return parseInt(value, 10);
+    }
+
+    const order = findChapterByTitle(value, chapterTitles);
+    if (order === null) {
+        throw new Error(`${name} に一致するチャプターがありません: ${value}`);
+    }
+    return order;
+}
+
+/**
+ * 範囲の指定をチャプター番号に解決する
+ * @param chapterTitles チャプター番号ごとのタイトル（chapters-metadata.jsonの目次のタイトルと抽出したタイトル）
+ */
+export function resolveChapterRange(range: ChapterRange, chapterTitles: Map<number, string[]>): ResolvedChapterRange {
+    const resolved: ResolvedChapterRange = {spans: [], titles: []};
+
+    const tokens = (range.selection || '').split(',').map(token => token.trim()).filter(token => token.length > 0);
+    for (const token of tokens) {
+        const span = token.match(/^(\d+)\s*-\s*(\d+)$/) || token.match(/^(\d+)$/);
+        if (!span) {
+            resolved.titles.push(token.toLowerCase());
+            continue;
+        }
+
+        const start = parseInt(span[1], 10);
+        const end = parseInt(span[2] ?? span[1], 10);
+        if (start > end) {
+            throw new Error(`--chapters の範囲の始まりが終わりより後になっています: ${token}`);
+        }
+        resolved.spans.push({start, end});
+    }
+
+    if (range.from !== undefined) {
+        resolved.from = resolveBoundary('--from', range.from, chapterTitles);
+    }
+    if (range.to !== undefined) {
+        resolved.to = resolveBoundary('--to', range.to, chapterTitles);
+    }
+    if (resolved.from !== undefined && resolved.to !== undefined && resolved.from > resolved.to) {
+        throw new Error(`--from (${resolved.from}) が --to (${resolved.to}) より後のチャプターです`);
+    }
+
+    return resolved;
+}
+
+/**
+ * チャプターが範囲に含まれるか
+ * --chaptersの指定と--from / --toの指定の両方がある場合は、両方に一致するチャプターだけを含める
+ */
+export function isInChapterRange(order: number, titles: string[], range: ResolvedChapterRange): boolean {
+    if (range.from !== undefined && order < range.from) return false;
+    if (range.to !== undefined && order > range.to) return false;
+    if (range.spans.length === 0 && range.titles.length === 0) return true;
+
+    return range.spans.some(span => order >= span.start && order <= span.end)
+        || range.titles.some(needle => titles.some(title => title.toLowerCase().includes(needle)));
+}
+
+/**
+ * チャプター番号で始まるファイル（抽出テキスト・会話調テキスト・音声・振り返り）を範囲で絞り込む
+ * @param range nullの場合は絞り込まない
+ */
+export function filterFilesByChapterRange(
+    files: string[],
+    range: ResolvedChapterRange | null,
+    chapterTitles: Map<number, string[]>
+): string[] {
+    if (!range) {
+        return files;
+    }
+
+    return files.filter(file => {
+        const order = getChapterOrder(file);
+        if (order === null) {
+            return false;
+        }
+        const titles = chapterTitles.get(order) || [getTitleFromFileName(file)];
+        return isInChapterRange(order, titles, range);
+    });
+}
@@ -1,3 +1,15 @@
+import dotenv from 'dotenv';
+import {LLMProviderType} from './llmProvider';
+import {LengthMode} from './narrationLength';
+import {NarrationLanguage} from './language';
+import {RetryPolicy} from './retryPolicy';
+import {ReviewMode} from './reviewQuiz';
+import {SpeechEngine} from './speechSynthesizer';
+import {ChapterRange} from './chapterRange';
+
+// 設定の評価より前に.envを読み込む
+dotenv.config();
+
 /**
  * アプリケーション設定
  */
@@ -8,13 +20,72 @@ export interface AppConfig {
     debug: boolean;
     // 音声合成設定
     speech: {
+        engine: SpeechEngine;   // 音声合成エンジン（say / mock）
         voice: string;
         rate: number;
+        // 対話モードで使用する話者ごとの音声
+        dialogueVoices: {
+            host: string;
+            guest: string;
+        };
+        dialogueGapMs: number;  // 対話モードの発話間の無音（ミリ秒）
+        // 英語でナレーションする場合に使用する音声
+        englishVoices: {
+            narrator: string;
+            host: string;
+            guest: string;
+        };
     };
-    // OpenAI API設定
-    openai: {
+    // 言語設定
+    language: {
+        source?: NarrationLanguage;  // 原文の言語（未指定時はEPUBのメタデータから判定）
+        target: NarrationLanguage;   // ナレーションの言語
+    };
+    // LLM設定（要約・ナレーション生成に使用するプロバイダー）
+    llm: {
+        provider: LLMProviderType;
+        baseUrl?: string;
         apiKey: string | undefined;
         model: string;
+        maxTokens: number;
+        retry: RetryPolicy;
+        concurrency: number;      // 同時に処理するチャプター数
+        tokensPerMinute: number;  // 1分あたりの送信トークン上限（0で無制限）
+        priceTablePath?: string;  // 料金表の上書き用JSONファイル
+        outputRatio: number;      // 費用見積もりで使う入力トークンに対する出力トークンの比率
+        maxCost?: number;         // 1回の実行で使える上限金額（USD）
+        maxContinuations: number; // 出力が途中で打ち切られた場合に続きを要求する最大回数
+        contextWindow?: number;   // モデルのコンテキスト長（表にないローカルモデル向け）
+        chunkTokens?: number;     // 1チャンクあたりの入力トークン数（未指定時はモデルから計算）
+        chunkOverlapTokens: number; // チャンク間で重複させるトークン数
+        stream: boolean;          // ストリーミングで受信し、進捗の表示と途中経過の保存を行うか
+    };
+    // ナレーション生成設定
+    narration: {
+        refreshCache: boolean;  // trueの場合はキャッシュを使わずに再生成
+        mode: 'monologue' | 'dialogue';  // 1人のナレーションか、2人の掛け合いか
+        persona: string;        // 組み込みペルソナ名（casual / lecture / interview）
+        promptFile?: string;    // 独自のプロンプトテンプレートファイル
+        minOutputRatio: number; // 原文に対するナレーションの文字数比がこれを下回ると警告
+        length: LengthMode;     // 分量モード（digest / standard / deep）
+        minutesPerChapter?: number;  // 1チャプターあたりの再生時間の目安（分）。未指定時は分量モードの既定値
+        glossary: boolean;      // 用語集を作成・使用するか
+        structuredOutput: boolean;  // ナレーションと番組ノート（要約・要点・キーワードなど）をJSONで出力させるか
+        maxLintRetries: number; // 品質チェックで違反が見つかった場合に書き直しを求める最大回数
+        maxKeigoRatio: number;  // 「です・ます」で終わる文の割合の上限（敬語を使わないペルソナのみ）
+        tableMaxCells: number;  // 表のデータのセル数がこれを超えると、行ごとに読まずに列と行の概要にまとめる
+    };
+    // ナレーション対象のチャプターの選択
+    chapters: {
+        include: string[];      // 分類に関わらず対象にするラベルまたはチャプター番号
+        exclude: string[];      // 分類に関わらず対象外にするラベルまたはチャプター番号
+        range: ChapterRange;    // 処理するチャプターの範囲（--chapters / --from / --to）
+    };
+    // 振り返りクイズ設定
+    review: {
+        mode: ReviewMode;       // 生成方法（off / chapter / book）
+        questionCount: number;  // 1チャプターあたりの問題数（3〜5）
+        refresh: boolean;       // trueの場合は保存済みのクイズを使わずに再生成
     };
     // RSS・ポッドキャスト設定
     podcast: {
@@ -25,17 +96,93 @@ export interface AppConfig {
     };
 }
 
+/**
+ * LLM_MODELが未指定の場合のプロバイダーごとの既定のモデル
+ * ollama・openai-compatibleは使えるモデルが環境ごとに異なるため既定値がない（空文字）
+ */
+export function getDefaultModel(provider: LLMProviderType): string {
+    switch (provider) {
+        case 'openai':
+            return process.env.OPENAI_MODEL || 'gpt-4.1-mini';
+        case 'anthropic':
+            return 'claude-sonnet-4-20250514';
+        case 'mock':
+            return 'mock';
+        default:
+            return '';
+    }
+}
+
 // デフォルト設定 (環境変数からの読み込みを含む)
 export const defaultConfig: AppConfig = {
     outputDir: process.env.OUTPUT_DIR || './output',
     debug: process.env.DEBUG === 'true',
     speech: {
+        engine: process.env.SPEECH_ENGINE === 'mock' ? 'mock' : 'say',
         voice: process.env.VOICE_NAME || 'Kyoko', // 日本語（女性）
-        rate: process.env.VOICE_RATE ? parseInt(process.env.VOICE_RATE) : 180  // 読み上げ速度
+        rate: process.env.VOICE_RATE ? parseInt(process.env.VOICE_RATE) : 180,  // 読み上げ速度
+        dialogueVoices: {
+            host: process.env.VOICE_HOST || 'Kyoko',
+            guest: process.env.VOICE_GUEST || 'Otoya'
+        },
+        dialogueGapMs: process.env.DIALOGUE_GAP_MS ? parseInt(process.env.DIALOGUE_GAP_MS) : 400,
+        englishVoices: {
+            narrator: process.env.VOICE_NAME_EN || 'Samantha',
+            host: process.env.VOICE_HOST_EN || 'Samantha',
+            guest: process.env.VOICE_GUEST_EN || 'Daniel'
+        }
+    },
+    language: {
+        source: process.env.LANGUAGE_SOURCE as NarrationLanguage | undefined,
+        target: (process.env.LANGUAGE_TARGET as NarrationLanguage) || 'ja'
+    },
+    llm: {
+        provider: (process.env.LLM_PROVIDER as LLMProviderType) || 'openai',
+        baseUrl: process.env.LLM_BASE_URL,
+        // LLM_API_KEYがなければプロバイダーごとの既定の環境変数を使用
+        apiKey: process.env.LLM_API_KEY
+            || (process.env.LLM_PROVIDER === 'anthropic' ? process.env.ANTHROPIC_API_KEY : process.env.OPENAI_API_KEY),
+        model: process.env.LLM_MODEL || getDefaultModel((process.env.LLM_PROVIDER as LLMProviderType) || 'openai'),
+        maxTokens: process.env.LLM_MAX_TOKENS ? parseInt(process.env.LLM_MAX_TOKENS) : 16000,
+        retry: {
+            maxAttempts: process.env.LLM_MAX_ATTEMPTS ? parseInt(process.env.LLM_MAX_ATTEMPTS) : 5,
+            baseDelayMs: process.env.LLM_RETRY_BASE_DELAY_MS ? parseInt(process.env.LLM_RETRY_BASE_DELAY_MS) : 2000,
+            maxDelayMs: process.env.LLM_RETRY_MAX_DELAY_MS ? parseInt(process.env.LLM_RETRY_MAX_DELAY_MS) : 60000
+        },
+        concurrency: process.env.LLM_CONCURRENCY ? parseInt(process.env.LLM_CONCURRENCY) : 1,
+        tokensPerMinute: process.env.LLM_TOKENS_PER_MINUTE ? parseInt(process.env.LLM_TOKENS_PER_MINUTE) : 0,
+        priceTablePath: process.env.LLM_PRICE_TABLE,
+        outputRatio: process.env.LLM_OUTPUT_RATIO ? parseFloat(process.env.LLM_OUTPUT_RATIO) : 0.5,
+        maxCost: process.env.LLM_MAX_COST ? parseFloat(process.env.LLM_MAX_COST) : undefined,
+        maxContinuations: process.env.LLM_MAX_CONTINUATIONS ? parseInt(process.env.LLM_MAX_CONTINUATIONS) : 3,
+        contextWindow: process.env.LLM_CONTEXT_WINDOW ? parseInt(process.env.LLM_CONTEXT_WINDOW) : undefined,
+        chunkTokens: process.env.LLM_CHUNK_TOKENS ? parseInt(process.env.LLM_CHUNK_TOKENS) : undefined,
+        chunkOverlapTokens: process.env.LLM_CHUNK_OVERLAP_TOKENS ? parseInt(process.env.LLM_CHUNK_OVERLAP_TOKENS) : 200,
+        stream: process.env.LLM_STREAM !== 'false'
+    },
+    narration: {
+        refreshCache: false,
+        mode: process.env.NARRATION_MODE === 'dialogue' ? 'dialogue' : 'monologue',
+        persona: process.env.NARRATION_PERSONA || 'casual',
+        promptFile: process.env.NARRATION_PROMPT_FILE,
+        minOutputRatio: process.env.NARRATION_MIN_OUTPUT_RATIO ? parseFloat(process.env.NARRATION_MIN_OUTPUT_RATIO) : 0.1,
+        length: (process.env.NARRATION_LENGTH as LengthMode) || 'standard',
+        minutesPerChapter: process.env.NARRATION_MINUTES_PER_CHAPTER ? parseFloat(process.env.NARRATION_MINUTES_PER_CHAPTER) : undefined,
+        glossary: process.env.NARRATION_GLOSSARY !== 'false',
+        structuredOutput: process.env.NARRATION_STRUCTURED_OUTPUT !== 'false',
+        maxLintRetries: process.env.NARRATION_LINT_RETRIES ? parseInt(process.env.NARRATION_LINT_RETRIES, 10) : 2,
+        maxKeigoRatio: process.env.NARRATION_MAX_KEIGO_RATIO ? parseFloat(process.env.NARRATION_MAX_KEIGO_RATIO) : 0.2,
+        tableMaxCells: process.env.NARRATION_TABLE_MAX_CELLS ? parseInt(process.env.NARRATION_TABLE_MAX_CELLS, 10) : 40
+    },
+    chapters: {
+        include: process.env.CHAPTER_INCLUDE ? process.env.CHAPTER_INCLUDE.split(',').map(token => token.trim()).filter(Boolean) : [],
+        exclude: process.env.CHAPTER_EXCLUDE ? process.env.CHAPTER_EXCLUDE.split(',').map(token => token.trim()).filter(Boolean) : [],
+        range: {}
     },
-    openai: {
-        apiKey: process.env.OPENAI_API_KEY,
-        model: process.env.OPENAI_MODEL || 'gpt-3.5-turbo'
+    review: {
+        mode: (process.env.REVIEW_QUIZ as ReviewMode) || 'off',
+        questionCount: process.env.REVIEW_QUESTION_COUNT ? parseInt(process.env.REVIEW_QUESTION_COUNT, 10) : 4,
+        refresh: false
     },
     podcast: {
         baseUrl: process.env.PODCAST_BASE_URL || 'https://tech-talk-cast.s3.ap-northeast-1.amazonaws.com',
@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+
+/**
+ * モデルの料金（USD / 100万トークン）
+ */
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+/**
+ * 料金表（モデル名の前方一致で検索する）
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * 既定の料金表
+ * 料金は変更されることがあるため、LLM_PRICE_TABLEで上書きできる
+ */
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+    'gpt-4.1': {input: 2.00, output: 8.00},
+    'gpt-4.1-mini': {input: 0.40, output: 1.60},
+    'gpt-4.1-nano': {input: 0.10, output: 0.40},
+    'gpt-4o': {input: 2.50, output: 10.00},
+    'gpt-4o-mini': {input: 0.15, output: 0.60},
+    'gpt-3.5-turbo': {input: 0.50, output: 1.50},
+    'claude-opus-4': {input: 15.00, output: 75.00},
+    'claude-sonnet-4': {input: 3.00, output: 15.00},
+    'claude-3-5-haiku': {input: 0.80, output: 4.00},
+    'mock': {input: 0, output: 0}
+};
+
+/**
+ * 既定の料金表にJSONファイルの内容を上書きして料金表を作る
+ * @param priceTablePath {"モデル名": {"input": 0.4, "output": 1.6}} 形式のJSONファイル
+ */
+export function loadPriceTable(priceTablePath?: string): PriceTable {
+    if (!priceTablePath) {
+        return {...DEFAULT_PRICE_TABLE};
+    }
+
+    if (!fs.existsSync(priceTablePath)) {
+        throw new Error(`料金表ファイルが見つかりません: ${priceTablePath}`);
+    }
+
+    const overrides: PriceTable = JSON.parse(fs.readFileSync(priceTablePath, 'utf8'));
+    return {...DEFAULT_PRICE_TABLE, ...overrides};
+}
+
+/**
+ * モデル名に対応する料金を取得（日付付きのモデル名にも対応するため最長の前方一致）
+ */
+export function findModelPrice(priceTable: PriceTable, model: string): ModelPrice | null {
+    const matched = Object.keys(priceTable)
+        .filter(name => model === name || model.startsWith(`${name}-`))
+        .sort((a, b) => b.length - a.length)[0];
+    return matched ? priceTable[matched] : null;
+}
+
+/**
+ * トークン数から料金（USD）を計算
+ */
+export function calculateCost(price: ModelPrice | null, inputTokens: number, outputTokens: number): number {
+    if (!price) {
+        return 0;
+    }
+    return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * 料金を表示用の文字列に変換
+ */
+export function formatCost(cost: number): string {
+    return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+}
@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * 台帳に記録するAPI呼び出し1回分の利用量
+ */
+export interface LedgerEntry {
+    timestamp: string;
+    chapter: string;
+    provider: string;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;   // USD
+}
+
+/**
+ * 書籍ごとのAPI利用料の台帳
+ * APIレスポンスのusageから実際の利用量を記録し、JSONファイルに追記していく
+ */
+export class CostLedger {
+    private ledgerPath: string;
+    private entries: LedgerEntry[] = [];
+    private sessionCost = 0;
+
+    constructor(ledgerPath: string) {
+        this.ledgerPath = ledgerPath;
+
+        // 過去の実行分を読み込んで追記する
+        if (fs.existsSync(ledgerPath)) {
+            try {
+                this.entries = JSON.parse(fs.readFileSync(ledgerPath, 'utf8')).entries || [];
+            } catch (error) {
+                console.warn(`利用料台帳の読み込みに失敗しました。新しく作成します: ${ledgerPath}`);
+            }
+        }
+    }
+
+    /**
+     * 利用量を記録して保存
+     */
+    record(entry: Omit<LedgerEntry, 'timestamp'>): void {
+        this.entries.push({timestamp: new Date().toISOString(), ...entry});
+        this.sessionCost += entry.cost;
+        this.save();
+    }
+
+    /**
+     * 今回の実行で使った金額（USD）
+     */
+    getSessionCost(): number {
+        return this.sessionCost;
+    }
+
+    /**
+     * 台帳全体の合計
+     */
+    getTotals(): {inputTokens: number; outputTokens: number; cost: number} {
+        return this.entries.reduce((totals, entry) => ({
+            inputTokens: totals.inputTokens + entry.inputTokens,
+            outputTokens: totals.outputTokens + entry.outputTokens,
+            cost: totals.cost + entry.cost
+        }), {inputTokens: 0, outputTokens: 0, cost: 0});
+    }
+
+    /**
+     * 台帳をJSONファイルに保存
+     */
+    private save(): void {
+        const dir = path.dirname(this.ledgerPath);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, {recursive: true});
+        }
+
+        fs.writeFileSync(this.ledgerPath, JSON.stringify({
+            totals: this.getTotals(),
+            entries: this.entries
+        }, null, 2), 'utf8');
+    }
+}
@@ -0,0 +1,133 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * 話者ID
+ */
+export type SpeakerId = 'host' | 'guest';
+
+/**
+ * 話者の情報
+ */
+export interface Speaker {
+    label: string;    // 台本上の表示名
+    voice?: string;   // 指定した場合は設定の音声より優先
+}
+
+/**
+ * 台本の1発話
+ */
+export interface DialogueTurn {
+    speaker: SpeakerId;
+    text: string;
+}
+
+/**
+ * 2人の掛け合いの台本
+ * _narratedディレクトリに保存され、音声合成の前に手で編集できる
+ */
+export interface DialogueScript {
+    version: 1;
+    speakers: Record<SpeakerId, Speaker>;
+    turns: DialogueTurn[];
+}
+
+// LLMに出力させる話者ラベル
+export const SPEAKER_LABELS: Record<SpeakerId, string> = {
+    host: 'ホスト',
+    guest: 'ゲスト'
+};
+
+// 英語の台本の話者ラベル
+export const ENGLISH_SPEAKER_LABELS: Record<SpeakerId, string> = {
+    host: 'Host',
+    guest: 'Guest'
+};
+
+// 「ホスト：〜」「Guest: 〜」形式の行にマッチ
+const SPEAKER_LINE_REGEX = /^\s*[*【\[]*\s*(ホスト|ゲスト|host|guest)\s*[*】\]]*\s*[:：]\s*(.*)$/i;
+
+/**
+ * ラベル文字列から話者IDを判定
+ */
+function toSpeakerId(label: string): SpeakerId {
+    return /^(ゲスト|guest)$/i.test(label) ? 'guest' : 'host';
+}
+
+/**
+ * LLMが出力した話者付きテキストを台本に変換
+ * 話者ラベルのない行は直前の発話の続きとして扱う
+ * @param labels 台本に保存する話者の表示名
+ */
+export function parseDialogueScript(text: string, labels: Record<SpeakerId, string> = SPEAKER_LABELS): DialogueScript {
+    const turns: DialogueTurn[] = [];
+
+    for (const line of text.split('\n')) {
+        const trimmed = line.trim();
+        if (trimmed.length === 0) continue;
+
+        const match = trimmed.match(SPEAKER_LINE_REGEX);
+        if (match) {
+            const content = match[2].trim();
+            turns.push({speaker: toSpeakerId(match[1]), text: content});
+        } else if (turns.length > 0) {
+            const last = turns[turns.length - 1];
+            last.text = last.text ? `${last.text}\n${trimmed}` : trimmed;
+        } else {
+            // 最初の行にラベルがない場合はホストの発話とみなす
+            turns.push({speaker: 'host', text: trimmed});
+        }
+    }
+
+    return {
+        version: 1,
+        speakers: {
+            host: {label: labels.host},
+            guest: {label: labels.guest}
+        },
+        turns: turns.filter(turn => turn.text.length > 0)
+    };
+}
+
+/**
+ * 台本を話者ラベル付きのプレーンテキストに変換
+ */
+export function scriptToText(script: DialogueScript): string {
+    return script.turns
+        .map(turn => `${script.speakers[turn.speaker]?.label || SPEAKER_LABELS[turn.speaker]}：${turn.text}`)
+        .join('\n\n');
+}
+
+/**
+ * ナレーションテキストファイルに対応する台本ファイルのパスを取得
+ */
+export function getScriptPath(textFilePath: string): string {
+    return path.join(path.dirname(textFilePath), `${path.basename(textFilePath, '.txt')}.script.json`);
+}
+
+/**
+ * 台本をファイルに保存
+ */
+export function saveDialogueScript(script: DialogueScript, scriptPath: string): void {
+    fs.writeFileSync(scriptPath, JSON.stringify(script, null, 2), 'utf8');
+}
+
+/**
+ * 台本ファイルを読み込む（存在しなければnull）
+ */
+export function loadDialogueScript(scriptPath: string): DialogueScript | null {
+    if (!fs.existsSync(scriptPath)) {
+        return null;
+    }
+
+    try {
+        const script: DialogueScript = JSON.parse(fs.readFileSync(scriptPath, 'utf8'));
+        if (!Array.isArray(script.turns)) {
+            throw new Error('turnsが配列ではありません');
+        }
+        return script;
+    } catch (error) {
+        console.warn(`台本ファイルの読み込みに失敗しました: ${scriptPath} (${error})`);
+        return null;
+    }
+}
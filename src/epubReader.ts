@@ -4,6 +4,9 @@ import {promisify} from 'util';
 import EPub from 'epub';
 import {config} from './config';
 import {FileManager} from './fileManager';
+import {Landmark, NavDocument, PageTarget, parseNavDocument} from './navDocument';
+import {ChapterLabel, ChapterMatter, classifyChapter} from './chapterClassifier';
+import {parseChapterDocument, saveChapterDocument} from './chapterDocument';
 
 // EPubの型定義
 type EPubType = any;
@@ -20,6 +23,11 @@ const openPromise = (filePath: string): Promise<EPubType> => {
     });
 };
 
+// ランドマークの位置の前後を比較（スパインの順、同じファイル内ならファイル内の位置の順）
+const compareBoundary = (a: ContentBoundary, b: ContentBoundary): number => {
+    return a.spineIndex !== b.spineIndex ? a.spineIndex - b.spineIndex : a.position - b.position;
+};
+
 // 目次項目の型定義
 export interface TocItem {
     id: string;
@@ -35,13 +43,46 @@ export interface Chapter {
     id: string;
     title: string;
     href: string;
+    fragment?: string;   // 目次がファイル内の節を指す場合のアンカー
     order: number;
     content: string;
+    startPage?: string;  // ページリストがある場合の、チャプター内の最初と最後のページ
+    endPage?: string;
+    matter?: ChapterMatter;  // ランドマークがある場合の、本の中での位置（表紙・目次・前付け・本文・後付け）
+}
+
+// chapters-metadata.jsonに保存するチャプターの情報
+export interface ChapterMetadata {
+    order: number;
+    fileName: string;
+    href: string;
+    originalTitle: string;
+    extractedTitle: string;
+    startPage?: string;
+    endPage?: string;
+    label: ChapterLabel;
+    reason: string;
+}
+
+// 目次の項目が指す切り出し範囲
+interface SectionTarget {
+    item: TocItem;
+    chapterId: string;          // 読み込むファイルのID（マニフェストのID、なければパス）
+    fileHref: string;           // フラグメントを除いたファイルのパス
+    fragment: string | null;
+    start: number;              // 切り出しの開始位置（ファイル全体を指す場合は0）
+}
+
+// ランドマークが示す本文の範囲（スパインの位置と、ファイル内の位置）
+interface ContentBoundary {
+    spineIndex: number;
+    position: number;
 }
 
 // EPUBファイルを解析するクラス
 export class EpubReader {
     private epub: EPubType | null = null;
+    private navDocument: NavDocument | null = null;
     private filePath: string;
     private fileName: string;
 
@@ -57,6 +98,7 @@ export class EpubReader {
         try {
             this.epub = await openPromise(this.filePath);
             console.log(`EPUBファイル "${this.fileName}" を開きました`);
+            this.navDocument = await this.loadNavDocument();
         } catch (error) {
             console.error('EPUBファイルを開けませんでした:', error);
             throw error;
@@ -76,12 +118,67 @@ export class EpubReader {
         };
     }
 
+    /**
+     * EPUB3のナビゲーション文書（manifestでproperties="nav"の項目）を読み込む
+     * ナビゲーション文書がない（EPUB2）場合や解析できない場合はnull
+     */
+    private async loadNavDocument(): Promise<NavDocument | null> {
+        const manifest = this.epub!.manifest || {};
+        const navId = Object.keys(manifest).find(id => (manifest[id].properties || '').split(/\s+/).includes('nav'));
+        if (!navId) {
+            return null;
+        }
+
+        try {
+            const data = await new Promise<Buffer>((resolve, reject) => {
+                this.epub!.getFile(navId, (error: Error, fileData: Buffer) => {
+                    if (error || !fileData) {
+                        reject(error || new Error('内容が空です'));
+                        return;
+                    }
+                    resolve(fileData);
+                });
+            });
+
+            const navDocument = parseNavDocument(data.toString('utf8'), manifest[navId].href);
+            console.log(`ナビゲーション文書を読み込みました (目次: ${navDocument.toc.length}項目, ランドマーク: ${navDocument.landmarks.length}項目, ページ: ${navDocument.pageList.length}項目)`);
+            return navDocument;
+        } catch (error) {
+            console.warn(`ナビゲーション文書の読み込みに失敗しました。NCXの目次を使用します: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * ナビゲーション文書のランドマーク（bodymatter・backmatter・cover・tocなど）を取得
+     */
+    getLandmarks(): Landmark[] {
+        return this.navDocument?.landmarks || [];
+    }
+
+    /**
+     * ナビゲーション文書のページリストを取得
+     */
+    getPageList(): PageTarget[] {
+        return this.navDocument?.pageList || [];
+    }
+
     /**
      * 目次（TOC）を取得
+     * EPUB3のナビゲーション文書があればNCXより優先する
      */
     async getToc(): Promise<TocItem[]> {
         if (!this.epub) throw new Error('EPUBファイルが開かれていません');
 
+        if (this.navDocument && this.navDocument.toc.length > 0) {
+            if (config.debug) {
+                console.log('ナビゲーション文書から目次を取得しました:', JSON.stringify(this.navDocument.toc, null, 2));
+            } else {
+                console.log(`ナビゲーション文書から目次を取得しました (${this.navDocument.toc.length}項目)`);
+            }
+            return this.navDocument.toc;
+        }
+
         // tocプロパティに値がある場合はそれを使用
         if (this.epub.toc && this.epub.toc.length > 0) {
             if (config.debug) {
@@ -205,6 +302,8 @@ export class EpubReader {
 
     /**
      * 全チャプター情報（内容含む）を取得
+     * 目次の項目がフラグメント（chapter3.xhtml#sec-3-2）を指す場合は、そのアンカーから同じファイル内の
+     * 次の目次アンカーまでを切り出し、各項目が自分の節だけを持つようにする
      */
     async getAllChapters(): Promise<Chapter[]> {
         if (!this.epub) throw new Error('EPUBファイルが開かれていません');
@@ -213,59 +312,129 @@ export class EpubReader {
         const chapters: Chapter[] = [];
         let order = 1;
 
-        // 再帰的に目次から全チャプターを抽出
-        const processItems = async (items: TocItem[], level = 0) => {
-            for (const item of items) {
-                try {
-                    // チャプターIDを決定 (id または href)
-                    const chapterId = item.id || item.href;
+        // 目次を出現順に並べる（子項目は親の直後）
+        const items: TocItem[] = [];
+        const flattenItems = (tocItems: TocItem[]) => {
+            for (const item of tocItems) {
+                items.push(item);
+                if (item.children && item.children.length > 0) {
+                    flattenItems(item.children);
+                }
+            }
+        };
+        flattenItems(toc);
 
-                    if (!chapterId) {
-                        console.warn(`チャプター "${item.title}" はIDまたはhrefがないためスキップします`);
-                        continue;
-                    }
+        // 各項目が指すファイルを読み込む（同じファイルは1回だけ読み込む）
+        const contents = new Map<string, string>();
+        const targets: SectionTarget[] = [];
+        for (const item of items) {
+            try {
+                const target = this.resolveTocTarget(item);
+                if (!target) {
+                    console.warn(`チャプター "${item.title}" はIDまたはhrefがないためスキップします`);
+                    continue;
+                }
 
-                    // チャプターの内容を取得
-                    const content = await this.getChapterContent(chapterId);
+                if (!contents.has(target.chapterId)) {
+                    contents.set(target.chapterId, await this.getChapterContent(target.chapterId));
+                }
 
-                    // 内容が取得できた場合のみ追加
-                    if (content) {
-                        chapters.push({
-                            id: chapterId,
-                            title: item.title || `チャプター ${order}`,
-                            href: item.href || chapterId,
-                            order: order++,
-                            content
-                        });
-                        console.log(`チャプター "${item.title || chapterId}" の内容を抽出しました`);
-                    } else {
-                        // IDでダメな場合はhrefを試してみる
-                        if (item.href && item.href !== chapterId) {
-                            const hrefContent = await this.getChapterContent(item.href);
-                            if (hrefContent) {
-                                chapters.push({
-                                    id: item.href,
-                                    title: item.title || `チャプター ${order}`,
-                                    href: item.href,
-                                    order: order++,
-                                    content: hrefContent
-                                });
-                                console.log(`href経由でチャプター "${item.title || item.href}" の内容を抽出しました`);
-                            }
-                        }
+                // IDでダメな場合はファイルのパスを試してみる
+                if (!contents.get(target.chapterId) && target.fileHref && target.fileHref !== target.chapterId) {
+                    target.chapterId = target.fileHref;
+                    if (!contents.has(target.chapterId)) {
+                        contents.set(target.chapterId, await this.getChapterContent(target.chapterId));
                     }
+                }
 
-                    // 子項目があれば再帰的に処理
-                    if (item.children && item.children.length > 0) {
-                        await processItems(item.children, level + 1);
-                    }
-                } catch (error) {
-                    console.error(`チャプター処理中にエラーが発生しました:`, error);
+                if (contents.get(target.chapterId)) {
+                    targets.push(target);
                 }
+            } catch (error) {
+                console.error(`チャプター処理中にエラーが発生しました:`, error);
             }
-        };
+        }
+
+        // ファイルごとに、目次のアンカーの位置（節の境界）を求める
+        const boundaries = new Map<string, number[]>();
+        for (const target of targets) {
+            if (target.fragment === null) continue;
+
+            const position = this.findAnchorPosition(contents.get(target.chapterId)!, target.fragment);
+            if (position < 0) {
+                console.warn(`アンカー "#${target.fragment}" が見つからないため、"${target.item.title}" はファイルの先頭から切り出します`);
+                target.fragment = null;
+                continue;
+            }
+
+            target.start = position;
+            const positions = boundaries.get(target.chapterId) || [];
+            positions.push(position);
+            boundaries.set(target.chapterId, positions);
+        }
 
-        await processItems(toc);
+        // ランドマークから本文の範囲と、表紙・目次のファイルを求める（チャプターの分類に使う）
+        const bodyStart = this.findLandmarkBoundary('bodymatter', contents);
+        const bodyEnd = this.findLandmarkBoundary('backmatter', contents);
+        const landmarkFiles = new Map<string, ChapterMatter>();
+        for (const landmark of this.getLandmarks()) {
+            if (landmark.type === 'cover' || landmark.type === 'toc') {
+                landmarkFiles.set(landmark.href.split('#')[0], landmark.type);
+            }
+        }
+        const pagePositions = this.resolvePagePositions(contents);
+
+        // 次の境界までを切り出し、同じ内容になる項目は1つにまとめる
+        const seenSections = new Set<string>();
+        for (const target of targets) {
+            const content = contents.get(target.chapterId)!;
+            const positions = (boundaries.get(target.chapterId) || []).sort((a, b) => a - b);
+            // ファイル全体を指す項目は、先頭にあるアンカーの節を含めない
+            const end = positions.find(position => target.fragment === null ? position >= target.start : position > target.start) ?? content.length;
+            const section = content.slice(target.start, end).trim();
+            const label = target.item.title || target.item.href || target.chapterId;
+
+            if (!section) {
+                console.log(`チャプター "${label}" は内容がないためスキップします`);
+                continue;
+            }
+
+            const sectionKey = this.normalizeSectionText(section) || section;
+            if (seenSections.has(sectionKey)) {
+                console.log(`チャプター "${label}" は他の目次項目と同じ内容のためスキップします`);
+                continue;
+            }
+            seenSections.add(sectionKey);
+
+            let matter = landmarkFiles.get(target.fileHref);
+            const location: ContentBoundary = {spineIndex: this.getSpineIndex(target.chapterId), position: target.start};
+            if (!matter && location.spineIndex >= 0 && (bodyStart || bodyEnd)) {
+                if (bodyStart && compareBoundary(location, bodyStart) < 0) {
+                    matter = 'frontmatter';
+                } else if (bodyEnd && compareBoundary(location, bodyEnd) >= 0) {
+                    matter = 'backmatter';
+                } else {
+                    matter = 'bodymatter';
+                }
+            }
+
+            const pages = pagePositions
+                .filter(page => page.chapterId === target.chapterId && page.position >= target.start && page.position < end)
+                .map(page => page.label);
+
+            chapters.push({
+                id: target.chapterId,
+                title: target.item.title || `チャプター ${order}`,
+                href: target.item.href || target.chapterId,
+                fragment: target.fragment ?? undefined,
+                order: order++,
+                content: section,
+                startPage: pages[0],
+                endPage: pages[pages.length - 1],
+                matter
+            });
+            console.log(`チャプター "${label}" の内容を抽出しました`);
+        }
 
         // チャプターが一つも取得できなかった場合のフォールバック
         if (chapters.length === 0 && this.epub.flow) {
@@ -294,6 +463,100 @@ export class EpubReader {
         return chapters;
     }
 
+    /**
+     * 目次の項目が指すファイル（マニフェストのID）とフラグメントを求める
+     */
+    private resolveTocTarget(item: TocItem): SectionTarget | null {
+        const [fileHref, ...fragmentParts] = (item.href || '').split('#');
+        let fragment: string | null = fragmentParts.length > 0 ? fragmentParts.join('#') : null;
+        if (fragment) {
+            try {
+                fragment = decodeURIComponent(fragment);
+            } catch {
+                // デコードできない場合はそのまま使う
+            }
+        }
+
+        // フラグメント付きの項目はマニフェストに一致しないため、ファイルのパスからIDを探す
+        const manifest = this.epub!.manifest || {};
+        const manifestId = fileHref
+            ? Object.keys(manifest).find(id => manifest[id].href === fileHref)
+            : undefined;
+        const chapterId = manifestId || item.id || fileHref;
+        if (!chapterId) {
+            return null;
+        }
+
+        return {item, chapterId, fileHref, fragment: fragment || null, start: 0};
+    }
+
+    /**
+     * ファイルのスパイン内での位置を取得（スパインにない場合は-1）
+     */
+    private getSpineIndex(chapterId: string): number {
+        const flow: any[] = this.epub!.flow || [];
+        return flow.findIndex(item => item.id === chapterId || item.href === chapterId);
+    }
+
+    /**
+     * 指定した種類のランドマークが指す位置を求める（ランドマークがない場合はnull）
+     */
+    private findLandmarkBoundary(type: string, contents: Map<string, string>): ContentBoundary | null {
+        const landmark = this.getLandmarks().find(item => item.type === type);
+        if (!landmark) {
+            return null;
+        }
+
+        const target = this.resolveTocTarget({id: '', title: landmark.title, level: 0, order: 0, href: landmark.href, children: []});
+        const spineIndex = target ? this.getSpineIndex(target.chapterId) : -1;
+        if (!target || spineIndex < 0) {
+            console.warn(`ランドマーク "${type}" の参照先 "${landmark.href}" が見つからないため無視します`);
+            return null;
+        }
+
+        const content = contents.get(target.chapterId);
+        const position = target.fragment && content ? this.findAnchorPosition(content, target.fragment) : 0;
+        return {spineIndex, position: Math.max(position, 0)};
+    }
+
+    /**
+     * ページリストの各ページがどのファイルのどの位置にあるかを求める
+     */
+    private resolvePagePositions(contents: Map<string, string>): {label: string; chapterId: string; position: number}[] {
+        const pages: {label: string; chapterId: string; position: number}[] = [];
+        for (const page of this.getPageList()) {
+            const target = this.resolveTocTarget({id: '', title: page.label, level: 0, order: 0, href: page.href, children: []});
+            const content = target ? contents.get(target.chapterId) : undefined;
+            if (!target || !content) continue;
+
+            const position = target.fragment ? this.findAnchorPosition(content, target.fragment) : 0;
+            if (position >= 0) {
+                pages.push({label: page.label, chapterId: target.chapterId, position});
+            }
+        }
+        return pages;
+    }
+
+    /**
+     * id（またはname）属性がフラグメントに一致する要素の開始位置を探す
+     * @returns 見つからない場合は-1
+     */
+    private findAnchorPosition(content: string, fragment: string): number {
+        const escaped = fragment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const match = new RegExp(`<[a-zA-Z][^>]*\\s(?:id|name)\\s*=\\s*["']${escaped}["']`).exec(content);
+        return match ? match.index : -1;
+    }
+
+    /**
+     * 重複の判定用に、HTMLタグを除いて空白をまとめた本文を取得
+     */
+    private normalizeSectionText(section: string): string {
+        return section
+            .replace(/<[^>]+>/g, ' ')
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
+
     /**
      * ファイル名の取得
      */
@@ -346,20 +609,11 @@ export class EpubReader {
         return fallbackTitle;
     }
 
-    /**
-     * コンテンツにh1、h2、またはh3タグが含まれているかチェック
-     */
-    hasHeadingTags(content: string): boolean {
-        const h1Match = /<h1[^>]*>/i.test(content);
-        const h2Match = /<h2[^>]*>/i.test(content);
-        const h3Match = /<h3[^>]*>/i.test(content);
-        return h1Match || h2Match || h3Match;
-    }
-
     /**
      * 読み込んだEPUBの情報をテキストファイルとして保存
+     * 各チャプターは本文・前付け・後付けなどに分類し、その結果もchapters-metadata.jsonに記録する
      */
-    async saveChaptersToFiles(outputDir: string): Promise<void> {
+    async saveChaptersToFiles(outputDir: string): Promise<ChapterMetadata[]> {
         const chapters = await this.getAllChapters();
 
         // 出力ディレクトリ作成
@@ -369,7 +623,7 @@ export class EpubReader {
         }
 
         // メタデータを保存するための配列
-        const chaptersMetadata: any[] = [];
+        const chaptersMetadata: ChapterMetadata[] = [];
 
         // 各チャプターをテキストファイルとして保存
         for (const chapter of chapters) {
@@ -384,12 +638,29 @@ export class EpubReader {
             fs.writeFileSync(filePath, chapter.content, 'utf8');
             console.log(`チャプター "${extractedTitle}" をファイルに保存しました: ${filePath}`);
 
+            // 見出し・段落・コード・表などの構造を文書モデル（JSON）とMarkdownとして保存
+            const document = parseChapterDocument(chapter.content, {title: extractedTitle, order: chapter.order, href: chapter.href});
+            saveChapterDocument(document, filePath);
+
+            // 本文・前付け・後付けなどに分類
+            const classification = classifyChapter({
+                title: chapter.title,
+                extractedTitle,
+                content: chapter.content,
+                matter: chapter.matter
+            });
+
             // メタデータを記録
             chaptersMetadata.push({
                 order: chapter.order,
                 fileName: filename,
+                href: chapter.href,
                 originalTitle: chapter.title,
-                extractedTitle: extractedTitle
+                extractedTitle: extractedTitle,
+                startPage: chapter.startPage,
+                endPage: chapter.endPage,
+                label: classification.label,
+                reason: classification.reason
             });
         }
 
@@ -403,5 +674,6 @@ export class EpubReader {
 
         console.log(`全チャプターを ${bookDir} に保存しました`);
         console.log(`メタデータを ${metadataPath} に保存しました`);
+        return chaptersMetadata;
     }
 }
@@ -163,6 +163,14 @@ export class FileManager {
         return allFiles.filter(file => file.endsWith(extension));
     }
 
+    /**
+     * 書き込み途中の出力を保存するファイルのパスを取得
+     * 拡張子が変わるため、getFilesWithExtensionで完成したファイルと一緒に取得されることはない
+     */
+    static getPartialPath(filePath: string): string {
+        return `${filePath}.partial`;
+    }
+
     /**
      * 指定されたディレクトリのサイズを取得（バイト単位）
      */
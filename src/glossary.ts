@@ -0,0 +1,216 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {NarrationLanguage} from './language';
+
+/**
+ * 用語集の1項目
+ */
+export interface GlossaryEntry {
+    term: string;        // 本文中の表記（例: Kubernetes）
+    reading: string;     // カタカナの読み（例: クバネティス）
+    definition: string;  // 1行の説明
+}
+
+/**
+ * 書籍の用語集
+ * chapters-metadata.jsonと同じディレクトリに保存され、手で編集して次回以降の実行でも再利用できる
+ */
+export interface Glossary {
+    version: 1;
+    entries: GlossaryEntry[];
+    chapters?: string[];  // 用語を抽出したチャプターのファイル名（ない場合はすべてのチャプターを抽出済みとみなす）
+}
+
+// 用語集のファイル名
+const GLOSSARY_FILE_NAME = 'glossary.json';
+
+// 1チャプターのプロンプトに含める用語の最大数
+const MAX_PROMPT_ENTRIES = 40;
+
+/**
+ * 用語を抽出するためのシステムプロンプト
+ */
+export const GLOSSARY_EXTRACTION_PROMPT = `あなたは技術書の用語集を作る編集者です。
+
+入力テキストに登場する専門用語のうち、次のようなものを抽出してください。
+- 音声で読み上げる際に読み方が分かりにくいもの（英字の略語、製品名、英単語など）
+- 章をまたいで表記を統一すべきもの
+
+出力は次の形式のJSON配列だけにしてください（説明文やコードブロックの記号は付けない）。
+[{"term": "Kubernetes", "reading": "クバネティス", "definition": "コンテナの配置や運用を自動化するツール"}]
+
+- term: 本文中の表記
+- reading: カタカナの読み（略語は一般的な読み方。例: CQRS → シーキューアールエス）
+- definition: 1行の簡潔な説明
+- 一般的な日本語の単語は含めないでください
+- 最大30語程度にしてください`;
+
+/**
+ * 抽出済みチャプターのディレクトリから用語集ファイルのパスを取得
+ */
+export function getGlossaryPath(extractedDir: string): string {
+    return path.join(extractedDir, GLOSSARY_FILE_NAME);
+}
+
+/**
+ * 用語集ファイルを読み込む（存在しなければnull）
+ */
+export function loadGlossary(glossaryPath: string): Glossary | null {
+    if (!fs.existsSync(glossaryPath)) {
+        return null;
+    }
+
+    try {
+        const glossary: Glossary = JSON.parse(fs.readFileSync(glossaryPath, 'utf8'));
+        if (!Array.isArray(glossary.entries)) {
+            throw new Error('entriesが配列ではありません');
+        }
+        return glossary;
+    } catch (error) {
+        console.warn(`用語集の読み込みに失敗しました: ${glossaryPath} (${error})`);
+        return null;
+    }
+}
+
+/**
+ * 用語集をファイルに保存
+ */
+export function saveGlossary(glossary: Glossary, glossaryPath: string): void {
+    fs.writeFileSync(glossaryPath, JSON.stringify(glossary, null, 2), 'utf8');
+}
+
+/**
+ * LLMの出力から用語の一覧を取り出す
+ * コードブロックや前置きが付いていても、最初のJSON配列を読み取る
+ */
+export function parseGlossaryEntries(content: string): GlossaryEntry[] {
+    const start = content.indexOf('[');
+    const end = content.lastIndexOf(']');
+    if (start === -1 || end <= start) {
+        return [];
+    }
+
+    try {
+        const items = JSON.parse(content.slice(start, end + 1));
+        if (!Array.isArray(items)) return [];
+
+        return items
+            .filter((item: any) => item && typeof item.term === 'string' && item.term.trim().length > 0)
+            .map((item: any) => ({
+                term: item.term.trim(),
+                reading: typeof item.reading === 'string' ? item.reading.trim() : '',
+                definition: typeof item.definition === 'string' ? item.definition.trim() : ''
+            }));
+    } catch (error) {
+        return [];
+    }
+}
+
+/**
+ * 複数チャプターの用語をまとめ、表記の重複（大文字小文字の違いを含む）を除く
+ * 同じ用語は先に出てきたものを優先する
+ */
+export function mergeGlossaryEntries(entryLists: GlossaryEntry[][]): GlossaryEntry[] {
+    const merged = new Map<string, GlossaryEntry>();
+
+    for (const entries of entryLists) {
+        for (const entry of entries) {
+            const key = entry.term.toLowerCase();
+            if (!merged.has(key)) {
+                merged.set(key, entry);
+            }
+        }
+    }
+
+    return Array.from(merged.values()).sort((a, b) => a.term.localeCompare(b.term));
+}
+
+/**
+ * テキストに登場する用語だけを取り出す
+ */
+export function findGlossaryEntries(glossary: Glossary, text: string): GlossaryEntry[] {
+    const lowerText = text.toLowerCase();
+    return glossary.entries.filter(entry => lowerText.includes(entry.term.toLowerCase()));
+}
+
+/**
+ * システムプロンプトに追加する用語集のテキストを生成
+ * @param language ナレーションの言語（出力言語のテンプレートに埋め込むため、出力言語で書く）
+ */
+export function buildGlossaryPrompt(entries: GlossaryEntry[], language: NarrationLanguage = 'ja'): string {
+    if (entries.length === 0) {
+        return '';
+    }
+
+    const separator = language === 'en' ? ': ' : '：';
+    const lines = entries
+        .slice(0, MAX_PROMPT_ENTRIES)
+        .map(entry => `- ${entry.term}${entry.definition ? `${separator}${entry.definition}` : ''}`);
+
+    if (language === 'en') {
+        return `### Glossary:
+
+Technical terms that appear in this chapter. Use these spellings consistently, and when a term needs explaining, follow the meaning given here.
+
+${lines.join('\n')}`;
+    }
+
+    return `### 用語集：
+
+この章に登場する専門用語です。表記は次のとおりに統一し、説明が必要な場合はこの意味に沿って補足してください。
+
+${lines.join('\n')}`;
+}
+
+/**
+ * 正規表現の特殊文字をエスケープ
+ */
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 音声合成の前に、用語を用語集の読みに置き換える
+ * 長い用語から順に置き換え、英字の用語は単語の途中には一致させない
+ */
+export function applyReadings(text: string, entries: GlossaryEntry[]): string {
+    const readable = entries
+        .filter(entry => entry.reading && entry.reading !== entry.term)
+        .sort((a, b) => b.term.length - a.term.length);
+
+    let result = text;
+    for (const entry of readable) {
+        const pattern = /^[\x20-\x7e]+$/.test(entry.term)
+            ? new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(entry.term)}(?![A-Za-z0-9])`, 'gi')
+            : new RegExp(escapeRegExp(entry.term), 'g');
+        result = result.replace(pattern, entry.reading);
+    }
+
+    return result;
+}
+
+/**
+ * 用語集にまだ用語を抽出していないチャプターを取得
+ * 範囲指定で一部のチャプターだけから作った用語集は、次回以降の実行で残りのチャプターを追加する
+ */
+export function getMissingGlossaryChapters(glossary: Glossary | null, chapterFiles: string[]): string[] {
+    if (!glossary) {
+        return chapterFiles;
+    }
+    if (!glossary.chapters) {
+        return [];
+    }
+    const extracted = new Set(glossary.chapters);
+    return chapterFiles.filter(file => !extracted.has(path.basename(file)));
+}
+
+/**
+ * 既存の用語集に追加で抽出した用語をまとめる（手で編集した既存の項目を優先する）
+ */
+export function mergeGlossaries(base: Glossary, added: Glossary): Glossary {
+    return {
+        version: 1,
+        entries: mergeGlossaryEntries([base.entries, added.entries]),
+        chapters: Array.from(new Set([...(base.chapters || []), ...(added.chapters || [])])).sort()
+    };
+}
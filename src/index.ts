@@ -1,16 +1,162 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import chalk from 'chalk';
-import dotenv from 'dotenv';
-import {EpubReader} from './epubReader';
+import {ChapterMetadata, EpubReader} from './epubReader';
 import {FileManager} from './fileManager';
 import {config, updateConfig} from './config';
-import {Summarizer} from './summarizer';
+import {ChapterWarning, CostEstimate, FailedChapter, Summarizer} from './summarizer';
 import {SpeechSynthesizer, ChapterInfo} from './speechSynthesizer';
 import {generatePodcastRSS} from './rssGenerator';
+import {buildBookContext} from './bookContext';
+import {BUILT_IN_PERSONAS} from './promptTemplate';
+import {LENGTH_MODES, LengthMode} from './narrationLength';
+import {getGlossaryPath, getMissingGlossaryChapters, loadGlossary, mergeGlossaries, saveGlossary} from './glossary';
+import {NarrationLanguage, normalizeLanguage, SUPPORTED_LANGUAGES} from './language';
+import {formatCost} from './costEstimator';
+import {
+    diffLines,
+    getReviewStatus,
+    loadPreviousVersion,
+    loadReviewManifest,
+    ReviewStatus,
+    selectNarratedFiles,
+    setReviewStatus
+} from './narrationReview';
+import {getNotesPath, loadChapterNotes} from './chapterNotes';
+import {
+    describeChapterRange,
+    filterFilesByChapterRange,
+    hasChapterRange,
+    resolveChapterRange,
+    ResolvedChapterRange
+} from './chapterRange';
+import {
+    CHAPTER_LABELS,
+    classifyChapter,
+    isNarratedLabel,
+    parseChapterOverrides,
+    shouldNarrateChapter
+} from './chapterClassifier';
+import {
+    buildBookReviewText,
+    getReviewPaths,
+    getReviewTrackTitle,
+    interleaveReviewFiles,
+    isReviewFile,
+    REVIEW_MODES,
+    ReviewMode,
+    ReviewQuiz
+} from './reviewQuiz';
 
-// 環境変数をロード
-dotenv.config();
+/**
+ * 値を取るコマンドラインオプション（例: --llm-concurrency 4）の値を取得
+ */
+function getOptionValue(args: string[], name: string): string | undefined {
+    const index = args.indexOf(name);
+    if (index === -1 || index + 1 >= args.length) {
+        return undefined;
+    }
+    return args[index + 1];
+}
+
+/**
+ * 正の整数のオプション値を取得（不正な値の場合は終了）
+ */
+function getIntegerOption(args: string[], name: string): number | undefined {
+    const value = getOptionValue(args, name);
+    if (value === undefined) {
+        return undefined;
+    }
+
+    const parsed = parseInt(value);
+    if (isNaN(parsed) || parsed < 1) {
+        console.error(chalk.red(`エラー: ${name} には1以上の整数を指定してください (${value})`));
+        process.exit(1);
+    }
+    return parsed;
+}
+
+/**
+ * 費用見積もりを表示
+ */
+function printCostEstimate(estimate: CostEstimate): void {
+    console.log(chalk.cyan(`\n=== 費用見積もり (${estimate.model}) ===`));
+    estimate.chapters.forEach((chapter, index) => {
+        console.log(`${index + 1}. ${chapter.fileName}: 入力 ${chapter.inputTokens.toLocaleString()} / 出力(見込み) ${chapter.outputTokens.toLocaleString()} トークン, ${formatCost(chapter.cost)}`);
+    });
+    console.log(chalk.cyan(`合計: 入力 ${estimate.totalInputTokens.toLocaleString()} / 出力(見込み) ${estimate.totalOutputTokens.toLocaleString()} トークン, ${formatCost(estimate.totalCost)}`));
+    if (!estimate.priced) {
+        console.log(chalk.yellow(`料金表に ${estimate.model} の料金がないため、金額は0として計算しています（LLM_PRICE_TABLEで指定できます）`));
+    }
+}
+
+/**
+ * チャプターの分類の一覧を表示し、音声化対象のファイルを返す
+ * メタデータにない（以前の実行で抽出された）ファイルは内容とファイル名から分類する
+ */
+function printChapterClassification(extractedDir: string, chaptersMetadata: ChapterMetadata[]): string[] {
+    const metadataByFileName = new Map(chaptersMetadata.map(chapter => [chapter.fileName, chapter]));
+    const validFiles: string[] = [];
+
+    console.log(chalk.cyan('\n=== チャプターの分類 ==='));
+    for (const file of FileManager.getFilesWithExtension(extractedDir, '.txt')) {
+        const fileName = path.basename(file);
+        const metadata = metadataByFileName.get(fileName);
+        const title = path.basename(fileName, '.txt').replace(/^\d+-/, '');
+        const {label, reason} = metadata || classifyChapter({title, extractedTitle: title, content: fs.readFileSync(file, 'utf8')});
+        const order = metadata?.order ?? parseInt(fileName, 10);
+
+        const narrate = shouldNarrateChapter(label, order, config.chapters.include, config.chapters.exclude);
+        const overridden = narrate !== isNarratedLabel(label) ? '（指定により変更）' : '';
+        const line = `  ${narrate ? '○' : '×'} ${fileName} [${label}] ${reason}${overridden}`;
+        console.log(narrate ? line : chalk.gray(line));
+
+        if (narrate) {
+            validFiles.push(file);
+        }
+    }
+    console.log(chalk.gray('  ○: 音声化対象 / ×: 対象外（--include / --exclude でラベルまたはチャプター番号を指定して変更できます）'));
+    return validFiles;
+}
+
+/**
+ * 確認待ちのチャプターを、直前の版との差分とあわせて表示
+ */
+function printPendingNarrations(narratedDir: string): void {
+    const narratedFiles = FileManager.getFilesWithExtension(narratedDir, '.txt');
+    const manifest = loadReviewManifest(narratedDir);
+
+    const counts: Record<ReviewStatus, number> = {pending: 0, approved: 0, rejected: 0};
+    narratedFiles.forEach(file => counts[getReviewStatus(manifest, file)]++);
+    console.log(chalk.cyan(`\n=== レビュー状態 (確認待ち ${counts.pending} / 承認済み ${counts.approved} / 差し戻し ${counts.rejected}) ===`));
+
+    const pendingFiles = narratedFiles.filter(file => getReviewStatus(manifest, file) === 'pending');
+    if (pendingFiles.length === 0) {
+        console.log(chalk.green('確認待ちのチャプターはありません'));
+        return;
+    }
+
+    for (const file of pendingFiles) {
+        const fileName = path.basename(file);
+        const version = manifest.chapters[fileName]?.version || 1;
+        const previous = loadPreviousVersion(file, manifest);
+        console.log(chalk.blue(`\n${fileName} (第${version}版)`));
+
+        if (previous === null) {
+            console.log(chalk.gray('  過去の版はありません（初回の生成）'));
+            continue;
+        }
+        for (const line of diffLines(previous, fs.readFileSync(file, 'utf8'))) {
+            if (line.startsWith('+')) {
+                console.log(chalk.green(line));
+            } else if (line.startsWith('-')) {
+                console.log(chalk.red(line));
+            } else {
+                console.log(chalk.gray(line));
+            }
+        }
+    }
+}
 
 /**
  * メイン処理
@@ -41,6 +187,159 @@ async function main() {
             console.log(chalk.yellow('デバッグモードが有効です'));
         }
 
+        // 外部サービスを使わないモックのLLMと音声合成で実行（オプション）
+        if (args.includes('--mock')) {
+            updateConfig({
+                llm: {...config.llm, provider: 'mock', model: 'mock'},
+                speech: {...config.speech, engine: 'mock'}
+            });
+            console.log(chalk.yellow('モックモード: LLMと音声合成を使わずに、入力から決まった出力を生成します'));
+        }
+
+        // キャッシュを使わずにナレーションを再生成（オプション）
+        if (args.includes('--refresh-narration')) {
+            updateConfig({narration: {...config.narration, refreshCache: true}});
+            console.log(chalk.yellow('ナレーションキャッシュを使わずに再生成します'));
+        }
+
+        // ナレーションのペルソナとプロンプトテンプレート（オプション）
+        const persona = getOptionValue(args, '--persona');
+        const promptFile = getOptionValue(args, '--prompt-file');
+        if (persona !== undefined || promptFile !== undefined) {
+            updateConfig({
+                narration: {
+                    ...config.narration,
+                    persona: persona ?? config.narration.persona,
+                    promptFile: promptFile ?? config.narration.promptFile
+                }
+            });
+        }
+        // 2人の掛け合い形式で生成（オプション）
+        if (args.includes('--dialogue')) {
+            updateConfig({narration: {...config.narration, mode: 'dialogue'}});
+            console.log(chalk.yellow('対話モード: ホストとゲストの掛け合いとして生成します'));
+        }
+        // 用語集を使わない（オプション）
+        if (args.includes('--no-glossary')) {
+            updateConfig({narration: {...config.narration, glossary: false}});
+        }
+
+        // ナレーションの分量モード（オプション）
+        const lengthMode = getOptionValue(args, '--length');
+        if (lengthMode !== undefined) {
+            updateConfig({narration: {...config.narration, length: lengthMode as LengthMode}});
+        }
+        if (!LENGTH_MODES[config.narration.length]) {
+            console.error(chalk.red(`エラー: 未知の分量モードです: ${config.narration.length}`));
+            console.log(`利用可能な分量モード: ${Object.keys(LENGTH_MODES).join(', ')}`);
+            process.exit(1);
+        }
+        if (config.narration.length !== 'standard') {
+            console.log(chalk.yellow(`分量モード: ${config.narration.length}（${LENGTH_MODES[config.narration.length].description}）`));
+        }
+        if (!BUILT_IN_PERSONAS[config.narration.persona]) {
+            console.error(chalk.red(`エラー: 未知のペルソナです: ${config.narration.persona}`));
+            console.log(`利用可能なペルソナ: ${Object.keys(BUILT_IN_PERSONAS).join(', ')}`);
+            process.exit(1);
+        }
+        if (config.narration.promptFile && !fs.existsSync(config.narration.promptFile)) {
+            console.error(chalk.red(`エラー: プロンプトテンプレートが見つかりません: ${config.narration.promptFile}`));
+            process.exit(1);
+        }
+
+        // 原文とナレーションの言語（オプション、原文の言語の既定値はEPUBのメタデータから判定）
+        const sourceLanguage = getOptionValue(args, '--source-lang');
+        const targetLanguage = getOptionValue(args, '--target-lang');
+        if (sourceLanguage !== undefined || targetLanguage !== undefined) {
+            updateConfig({
+                language: {
+                    source: (sourceLanguage as NarrationLanguage) ?? config.language.source,
+                    target: (targetLanguage as NarrationLanguage) ?? config.language.target
+                }
+            });
+        }
+        for (const language of [config.language.source, config.language.target]) {
+            if (language !== undefined && !SUPPORTED_LANGUAGES.includes(language)) {
+                console.error(chalk.red(`エラー: 未対応の言語です: ${language}`));
+                console.log(`利用可能な言語: ${SUPPORTED_LANGUAGES.join(', ')}`);
+                process.exit(1);
+            }
+        }
+
+        // 振り返りクイズ（オプション）
+        const reviewMode = getOptionValue(args, '--review');
+        if (reviewMode !== undefined || args.includes('--refresh-review')) {
+            updateConfig({
+                review: {
+                    ...config.review,
+                    mode: (reviewMode as ReviewMode) ?? config.review.mode,
+                    refresh: args.includes('--refresh-review')
+                }
+            });
+        }
+        if (!REVIEW_MODES.includes(config.review.mode)) {
+            console.error(chalk.red(`エラー: 未知の振り返りクイズの形式です: ${config.review.mode}`));
+            console.log(`利用可能な形式: ${REVIEW_MODES.join(', ')}`);
+            process.exit(1);
+        }
+
+        // LLMの同時実行数と1分あたりのトークン上限（オプション）
+        const llmConcurrency = getIntegerOption(args, '--llm-concurrency');
+        const llmTokensPerMinute = getIntegerOption(args, '--llm-tpm');
+        if (llmConcurrency !== undefined || llmTokensPerMinute !== undefined) {
+            updateConfig({
+                llm: {
+                    ...config.llm,
+                    concurrency: llmConcurrency ?? config.llm.concurrency,
+                    tokensPerMinute: llmTokensPerMinute ?? config.llm.tokensPerMinute
+                }
+            });
+        }
+
+        // 既定のモデルがないプロバイダー（ollama・openai-compatible）では、LLMを使う前にモデルの指定を求める
+        if (!config.llm.model && (!args.includes('--no-gpt') || config.review.mode !== 'off')) {
+            console.error(chalk.red(`エラー: LLMプロバイダー ${config.llm.provider} にはモデルの既定値がありません。LLM_MODEL でモデルを指定してください`));
+            process.exit(1);
+        }
+
+        // ストリーミングを使わない（オプション）
+        if (args.includes('--no-stream')) {
+            updateConfig({llm: {...config.llm, stream: false}});
+        }
+
+        // 1回の実行で使えるAPI利用料の上限（オプション）
+        const maxCost = getOptionValue(args, '--max-cost');
+        if (maxCost !== undefined) {
+            const parsed = parseFloat(maxCost);
+            if (isNaN(parsed) || parsed < 0) {
+                console.error(chalk.red(`エラー: --max-cost には0以上の金額(USD)を指定してください (${maxCost})`));
+                process.exit(1);
+            }
+            updateConfig({llm: {...config.llm, maxCost: parsed}});
+        }
+
+        // 分類に関わらず対象にする・対象外にするチャプター（オプション）
+        for (const name of ['--include', '--exclude'] as const) {
+            const value = getOptionValue(args, name);
+            if (value === undefined) continue;
+
+            const {tokens, invalid} = parseChapterOverrides(value);
+            if (invalid.length > 0) {
+                console.error(chalk.red(`エラー: ${name} に未知のラベルが含まれています: ${invalid.join(', ')}`));
+                console.log(`利用可能なラベル: ${CHAPTER_LABELS.join(', ')}（またはチャプター番号）`);
+                process.exit(1);
+            }
+            updateConfig({chapters: {...config.chapters, [name === '--include' ? 'include' : 'exclude']: tokens}});
+        }
+
+        // 処理するチャプターの範囲（オプション、番号かタイトルの一部で指定）
+        const chapterSelection = getOptionValue(args, '--chapters');
+        const chapterFrom = getOptionValue(args, '--from');
+        const chapterTo = getOptionValue(args, '--to');
+        if (chapterSelection !== undefined || chapterFrom !== undefined || chapterTo !== undefined) {
+            updateConfig({chapters: {...config.chapters, range: {selection: chapterSelection, from: chapterFrom, to: chapterTo}}});
+        }
+
         // 出力ディレクトリの作成
         FileManager.ensureOutputDirectory();
 
@@ -56,6 +355,24 @@ async function main() {
         console.log(`著者: ${metadata.creator || '不明'}`);
         console.log(`言語: ${metadata.language || '不明'}\n`);
 
+        // 原文の言語が指定されていなければメタデータから判定（判定できない場合は日本語とみなす）
+        if (!config.language.source) {
+            updateConfig({language: {...config.language, source: normalizeLanguage(metadata.language) || 'ja'}});
+        }
+        // 英語でナレーションする場合は英語の音声を使う
+        if (config.language.target === 'en') {
+            updateConfig({
+                speech: {
+                    ...config.speech,
+                    voice: config.speech.englishVoices.narrator,
+                    dialogueVoices: {host: config.speech.englishVoices.host, guest: config.speech.englishVoices.guest}
+                }
+            });
+        }
+        if (config.language.source !== config.language.target) {
+            console.log(chalk.yellow(`翻訳モード: ${config.language.source} の原文を ${config.language.target} でナレーションします（音声: ${config.speech.voice}）\n`));
+        }
+
         // 目次の取得
         console.log(chalk.blue('目次を取得中...'));
         const toc = await epubReader.getToc();
@@ -66,44 +383,113 @@ async function main() {
         const bookDir = FileManager.createBookDirectory(epubReader.getFileName());
 
         // チャプターの内容をファイルに保存
-        await epubReader.saveChaptersToFiles(config.outputDir);
+        const chaptersMetadata = await epubReader.saveChaptersToFiles(config.outputDir);
 
         // リソースディレクトリのパス
         const extractedDir = path.join(config.outputDir, epubReader.getFileName());
 
-        // 抽出されたファイルからh1/h2/h3タグがないファイルをフィルタリング
+        // 分類（本文・前付け・後付けなど）と --include / --exclude の指定から音声化対象を選ぶ
         console.log(chalk.blue('\n音声化対象ファイルをフィルタリング中...'));
-        const allFiles = FileManager.getFilesWithExtension(extractedDir, '.txt');
-        const validFiles: string[] = [];
-        const skippedFiles: string[] = [];
-
-        for (const file of allFiles) {
-            const content = fs.readFileSync(file, 'utf8');
-            if (epubReader.hasHeadingTags(content)) {
-                validFiles.push(file);
-            } else {
-                skippedFiles.push(path.basename(file));
+        const validFiles = printChapterClassification(extractedDir, chaptersMetadata);
+        console.log(chalk.green(`\n音声化対象ファイル: ${validFiles.length}個`));
+
+        // --chapters / --from / --to で処理するチャプターを絞り込む（本の構成は絞り込む前のチャプターで組み立てる）
+        const chapterTitles = new Map(chaptersMetadata.map(chapter => [chapter.order, [chapter.originalTitle, chapter.extractedTitle]]));
+        let chapterRange: ResolvedChapterRange | null = null;
+        if (hasChapterRange(config.chapters.range)) {
+            try {
+                chapterRange = resolveChapterRange(config.chapters.range, chapterTitles);
+            } catch (error) {
+                console.error(chalk.red(`エラー: ${(error as Error).message}`));
+                process.exit(1);
             }
         }
-
-        if (skippedFiles.length > 0) {
-            console.log(chalk.yellow(`\nh1/h2/h3タグがないためスキップするファイル (${skippedFiles.length}個):`));
-            skippedFiles.forEach(file => {
-                console.log(chalk.gray(`  - ${file}`));
-            });
+        const targetFiles = filterFilesByChapterRange(validFiles, chapterRange, chapterTitles);
+        if (chapterRange) {
+            if (targetFiles.length === 0) {
+                console.error(chalk.red(`エラー: 指定した範囲に音声化対象のチャプターがありません: ${describeChapterRange(config.chapters.range)}`));
+                process.exit(1);
+            }
+            console.log(chalk.yellow(`範囲指定 (${describeChapterRange(config.chapters.range)}) により${targetFiles.length}個のチャプターを処理します:`));
+            targetFiles.forEach(file => console.log(chalk.gray(`  - ${path.basename(file)}`)));
         }
-        console.log(chalk.green(`\n音声化対象ファイル: ${validFiles.length}個`));
+
+        // 範囲指定の場合は、完全版・振り返り・RSSを本全体のものと別の名前で出力する
+        const rangeSuffix = chapterRange ? `_抜粋_${FileManager.sanitizeFileName(describeChapterRange(config.chapters.range))}` : '';
+        const episodeName = `${epubReader.getFileName()}${rangeSuffix}`;
+        const combinedAudioName = chapterRange ? `${episodeName}.m4a` : `${epubReader.getFileName()}_完全版.m4a`;
 
         // フラグ設定
         const shouldSummarize = !args.includes('--no-gpt');
         const shouldSynthesize = !args.includes('--no-speech');
         const shouldGenerateRSS = !args.includes('--no-rss');
         const combineOnly = args.includes('--combine-only');
+        const dryRun = args.includes('--dry-run');
+
+        // 目次と書籍情報から本全体の構成を組み立てる（各チャプターに位置づけを伝えるため）
+        const bookContext = buildBookContext(extractedDir, metadata, validFiles);
+
+        // 用語集（chapters-metadata.jsonと同じディレクトリに保存し、次回以降も再利用する）
+        // 範囲指定の場合は処理するチャプターからだけ抽出し、用語集にまだないチャプターは次回以降の実行で追加する
+        const glossaryPath = getGlossaryPath(extractedDir);
+        let glossary = config.narration.glossary ? loadGlossary(glossaryPath) : null;
+        const refreshGlossary = args.includes('--refresh-glossary');
+        const glossaryFiles = !config.narration.glossary
+            ? []
+            : (refreshGlossary ? targetFiles : getMissingGlossaryChapters(glossary, targetFiles));
+
+        // --dry-runの場合は費用を見積もって終了
+        if (dryRun) {
+            const estimate = new Summarizer().estimateCosts(targetFiles, bookContext, glossaryFiles);
+            printCostEstimate(estimate);
+            if (config.llm.maxCost !== undefined && estimate.totalCost > config.llm.maxCost) {
+                console.log(chalk.red(`見積もりが予算上限 (${formatCost(config.llm.maxCost)}) を超えています`));
+            }
+            console.log(chalk.green('\n--dry-run のためAPIは呼び出さずに終了します'));
+            return;
+        }
 
         // 要約テキスト保存先
         const narratedDir = path.join(config.outputDir, `${FileManager.sanitizeFileName(epubReader.getFileName())}_narrated`);
+        // 振り返りクイズの保存先（_narratedの中に置くと会話調テキストとして読み込まれるため分ける）
+        const reviewDir = path.join(config.outputDir, `${FileManager.sanitizeFileName(epubReader.getFileName())}_review`);
+        const bookReviewName = `${epubReader.getFileName()}_振り返り${rangeSuffix}`;
         let processedFiles: string[] = [];
 
+        // ナレーションのレビュー（確認待ちの一覧表示・承認・差し戻し）を行って終了
+        const approveSelector = getOptionValue(args, '--approve');
+        const rejectSelector = getOptionValue(args, '--reject');
+        if (args.includes('--list-pending') || approveSelector !== undefined || rejectSelector !== undefined) {
+            const narratedFiles = FileManager.getFilesWithExtension(narratedDir, '.txt');
+            if (narratedFiles.length === 0) {
+                console.error(chalk.red(`エラー: 会話調テキストが見つかりません: ${narratedDir}`));
+                process.exit(1);
+            }
+
+            const updates: [string | undefined, ReviewStatus, string][] = [
+                [approveSelector, 'approved', '承認'],
+                [rejectSelector, 'rejected', '差し戻し']
+            ];
+            for (const [selector, status, label] of updates) {
+                if (selector === undefined) continue;
+                const selected = selectNarratedFiles(narratedFiles, selector);
+                if (selected.length === 0) {
+                    console.error(chalk.red(`エラー: 指定に一致するチャプターがありません: ${selector}`));
+                    process.exit(1);
+                }
+                setReviewStatus(narratedDir, selected.map(file => path.basename(file)), status);
+                console.log(chalk.green(`${selected.length}個のチャプターを${label}にしました`));
+                selected.forEach(file => console.log(chalk.gray(`  - ${path.basename(file)}`)));
+            }
+
+            if (args.includes('--list-pending')) {
+                printPendingNarrations(narratedDir);
+            }
+            return;
+        }
+        let failedChapters: FailedChapter[] = [];
+        let chapterWarnings: ChapterWarning[] = [];
+
         // --combine-onlyの場合、既存の音声ファイルから結合のみ実行
         if (combineOnly) {
             console.log(chalk.blue('\n--combine-only モード: 既存の音声ファイルを結合します'));
@@ -117,8 +503,12 @@ async function main() {
                 process.exit(1);
             }
             
-            // 既存のMP3ファイルを取得
-            const audioFiles = FileManager.getFilesWithExtension(audioDir, '.mp3');
+            // 既存のMP3ファイルを取得（振り返りトラックは対応するチャプターの直後に並べる）
+            const mp3Files = filterFilesByChapterRange(FileManager.getFilesWithExtension(audioDir, '.mp3'), chapterRange, chapterTitles);
+            const audioFiles = interleaveReviewFiles(
+                mp3Files.filter(file => !isReviewFile(file)),
+                mp3Files.filter(file => isReviewFile(file))
+            );
             
             if (audioFiles.length === 0) {
                 console.error(chalk.red('エラー: MP3ファイルが見つかりません'));
@@ -146,16 +536,22 @@ async function main() {
                 // 音声ファイルの長さを取得
                 const duration = await synthesizer.getAudioDuration(audioFile);
                 
-                // チャプターのタイトルを抽出（narrated_と番号部分を除去）
-                const cleanFileName = fileName.replace(/^narrated_/, '');
+                // チャプターのタイトルを抽出（narrated_・review_と番号部分を除去）
+                const cleanFileName = fileName.replace(/^(narrated_|review_)/, '');
                 const titleMatch = cleanFileName.match(/^\d+-(.+)$/);
-                const title = titleMatch ? titleMatch[1] : cleanFileName;
+                const chapterTitle = titleMatch ? titleMatch[1] : cleanFileName;
+                const title = isReviewFile(fileName) ? getReviewTrackTitle(chapterTitle, config.language.target) : chapterTitle;
+
+                // 番組ノートがあれば要約とキーワードをチャプター情報に含める
+                const notes = loadChapterNotes(getNotesPath(path.join(narratedDir, `${fileName}.txt`)));
                 
                 chapters.push({
                     title: title,
                     fileName: fileName,
                     startTime: currentStartTime,
-                    duration: duration
+                    duration: duration,
+                    summary: notes?.summary,
+                    keywords: notes?.keywords
                 });
                 
                 // 次のチャプターの開始時間を計算
@@ -169,16 +565,22 @@ async function main() {
             // テキストファイルのパスを取得（narratedまたは元のテキスト）
             let textFiles: string[] = [];
             if (fs.existsSync(narratedDir)) {
-                textFiles = FileManager.getFilesWithExtension(narratedDir, '.txt');
+                textFiles = filterFilesByChapterRange(FileManager.getFilesWithExtension(narratedDir, '.txt'), chapterRange, chapterTitles);
             }
             if (textFiles.length === 0) {
-                textFiles = validFiles;
+                textFiles = targetFiles;
+            }
+            // 振り返りトラックがある場合は振り返りのテキストも同じ順に並べる
+            if (audioFiles.some(file => isReviewFile(file)) && fs.existsSync(reviewDir)) {
+                const reviewTextFiles = filterFilesByChapterRange(FileManager.getFilesWithExtension(reviewDir, '.txt'), chapterRange, chapterTitles)
+                    .filter(file => isReviewFile(file));
+                textFiles = interleaveReviewFiles(textFiles, reviewTextFiles);
             }
             
             // 結合音声ファイルを生成
             console.log(chalk.blue('\n全チャプターを結合した音声ファイルを生成中...'));
             
-            const combinedAudioPath = path.join(audioDir, `${epubReader.getFileName()}_完全版.m4a`);
+            const combinedAudioPath = path.join(audioDir, combinedAudioName);
             await synthesizer.synthesizeCombined(textFiles, combinedAudioPath, chapters);
             
             console.log(chalk.green(`\n結合音声ファイルを生成しました: ${combinedAudioPath}`));
@@ -213,7 +615,7 @@ async function main() {
                     
                     const metadata = epubReader.getMetadata();
                     const rssPath = await generatePodcastRSS(
-                        epubReader.getFileName(),
+                        episodeName,
                         combinedAudioPath,
                         config.podcast.baseUrl,
                         {
@@ -221,7 +623,8 @@ async function main() {
                             description: `技術書「${metadata.title}」をポッドキャスト形式で配信`,
                             category: config.podcast.category,
                             imageUrl: config.podcast.imageUrl,
-                            duration: durationStr
+                            duration: durationStr,
+                            chapters
                         }
                     );
 
@@ -241,22 +644,80 @@ async function main() {
             return;
         }
 
+        // サマライザーインスタンスを作成（振り返りクイズの作成でも同じインスタンスを使い、予算上限を通して適用する）
+        const summarizer = new Summarizer();
+
         // ChatGPTによるテキスト変換
         if (shouldSummarize) {
-            console.log(chalk.blue('\nChatGPT APIで会話調テキストに変換中...'));
+            console.log(chalk.blue(`\nLLM API (${config.llm.provider}: ${config.llm.model}) で会話調テキストに変換中...`));
+
+            // 予算上限が指定されている場合は、見積もりが上限を超えないか事前に確認
+            if (config.llm.maxCost !== undefined) {
+                const estimate = summarizer.estimateCosts(targetFiles, bookContext, glossaryFiles);
+                printCostEstimate(estimate);
+                if (estimate.totalCost > config.llm.maxCost) {
+                    console.error(chalk.red(`\nエラー: 見積もり ${formatCost(estimate.totalCost)} が予算上限 ${formatCost(config.llm.maxCost)} を超えるため中断します`));
+                    process.exit(1);
+                }
+            }
 
-            // サマライザーインスタンスを作成
-            const summarizer = new Summarizer();
+            // 用語集を作成（既存の用語集ファイルがあれば手で編集した内容をそのまま使う）
+            if (config.narration.glossary) {
+                if (glossaryFiles.length > 0) {
+                    console.log(chalk.blue(`\n用語集を作成中... (${glossaryFiles.length}チャプター)`));
+                    const extracted = await summarizer.buildGlossary(glossaryFiles, narratedDir);
+                    glossary = glossary && !refreshGlossary ? mergeGlossaries(glossary, extracted) : extracted;
+                    saveGlossary(glossary, glossaryPath);
+                    console.log(chalk.green(`用語集 (${glossary.entries.length}語) を "${glossaryPath}" に保存しました`));
+                } else if (glossary) {
+                    console.log(`既存の用語集 (${glossary.entries.length}語) を使用します: ${glossaryPath}`);
+                }
+                summarizer.setGlossary(glossary);
+            }
 
             // フィルタリングされたチャプターのみを処理
-            processedFiles = await summarizer.processValidChapters(validFiles, narratedDir);
+            const narrationResult = await summarizer.processValidChapters(targetFiles, narratedDir, bookContext);
+            processedFiles = narrationResult.processedFiles;
+            failedChapters = narrationResult.failedChapters;
+            chapterWarnings = narrationResult.warnings;
 
             console.log(chalk.green(`\n${processedFiles.length}個のチャプターを会話調テキストに変換しました`));
             console.log(`会話調テキストの保存先: ${narratedDir}`);
+
+            console.log(`今回のAPI利用料: ${formatCost(summarizer.getSpentCost())}（台帳: ${path.join(narratedDir, 'cost-ledger.json')}）`);
+
+            const cacheStats = summarizer.getCacheStats();
+            console.log(`ナレーションキャッシュ: ヒット ${cacheStats.hits}件 / ミス ${cacheStats.misses}件 / 保存 ${cacheStats.writes}件`);
         } else {
             console.log(chalk.yellow('\nChatGPT APIによる変換はスキップされました'));
         }
 
+        // 振り返りクイズを作成（会話調テキストから作るため、--no-gptでも既存のテキストがあれば作成できる）
+        let reviewQuizzes: ReviewQuiz[] = [];
+        if (config.review.mode !== 'off') {
+            const narratedFiles = processedFiles.length > 0
+                ? processedFiles
+                : (fs.existsSync(narratedDir) ? filterFilesByChapterRange(FileManager.getFilesWithExtension(narratedDir, '.txt'), chapterRange, chapterTitles) : []);
+
+            if (narratedFiles.length === 0) {
+                console.log(chalk.yellow('\n会話調テキストがないため、振り返りクイズの作成をスキップしました'));
+            } else {
+                console.log(chalk.blue('\n振り返りクイズを作成中...'));
+                try {
+                    reviewQuizzes = await summarizer.generateReviewQuizzes(narratedFiles, reviewDir, narratedDir);
+                    console.log(chalk.green(`${reviewQuizzes.length}個のチャプターの振り返りクイズを作成しました`));
+
+                    if (config.review.mode === 'book' && reviewQuizzes.length > 0) {
+                        const bookReviewText = buildBookReviewText(metadata.title, reviewQuizzes, config.language.target);
+                        fs.writeFileSync(path.join(reviewDir, `${bookReviewName}.txt`), bookReviewText, 'utf8');
+                    }
+                    console.log(`振り返りクイズの保存先: ${reviewDir}`);
+                } catch (error) {
+                    console.log(chalk.yellow(`振り返りクイズの作成をスキップしました: ${error}`));
+                }
+            }
+        }
+
         // 音声合成処理
         if (shouldSynthesize) {
             console.log(chalk.blue('\n音声ファイルを生成中...'));
@@ -264,7 +725,8 @@ async function main() {
             // 音声合成インスタンスを作成
             const synthesizer = new SpeechSynthesizer(
                 config.speech.voice,
-                config.speech.rate
+                config.speech.rate,
+                glossary?.entries
             );
 
             // 音声ファイルの保存先ディレクトリ
@@ -275,18 +737,37 @@ async function main() {
             
             // --no-gptが指定された場合、_narratedディレクトリが存在すればそれを使用
             if (!shouldSummarize && fs.existsSync(narratedDir)) {
-                const narratedFiles = FileManager.getFilesWithExtension(narratedDir, '.txt');
+                const narratedFiles = filterFilesByChapterRange(FileManager.getFilesWithExtension(narratedDir, '.txt'), chapterRange, chapterTitles);
                 if (narratedFiles.length > 0) {
                     sourceFiles = narratedFiles;
                     console.log(chalk.yellow('既存の会話調テキストから音声を生成します'));
                 } else {
-                    sourceFiles = validFiles;
+                    sourceFiles = targetFiles;
                     console.log(chalk.yellow('会話調テキストが見つからないため、元のテキストから音声を生成します'));
                 }
             } else if (processedFiles.length > 0) {
                 sourceFiles = processedFiles;
             } else {
-                sourceFiles = validFiles;
+                sourceFiles = targetFiles;
+            }
+
+            // 承認済みのチャプターだけを音声化（レビュー状態は会話調テキストにのみ記録される）
+            if (args.includes('--approved-only') && sourceFiles.some(file => path.dirname(file) === narratedDir)) {
+                const manifest = loadReviewManifest(narratedDir);
+                const unapproved = sourceFiles.filter(file => getReviewStatus(manifest, file) !== 'approved');
+                sourceFiles = sourceFiles.filter(file => getReviewStatus(manifest, file) === 'approved');
+                console.log(chalk.yellow(`承認済みの${sourceFiles.length}個のチャプターのみ音声化します（未承認 ${unapproved.length}個をスキップ）`));
+            }
+
+            // チャプターごとの振り返りの場合は、各チャプターの直後に振り返りトラックを入れる
+            // （--approved-onlyなどで音声化しないチャプターの振り返りは入れない）
+            if (config.review.mode === 'chapter' && reviewQuizzes.length > 0) {
+                const chapterKey = (file: string) => path.basename(file, '.txt').replace(/^narrated_/, '');
+                const sourceKeys = new Set(sourceFiles.map(chapterKey));
+                const reviewTextFiles = reviewQuizzes
+                    .filter(quiz => sourceKeys.has(chapterKey(quiz.chapter)))
+                    .map(quiz => getReviewPaths(quiz.chapter, reviewDir).textPath);
+                sourceFiles = interleaveReviewFiles(sourceFiles, reviewTextFiles);
             }
 
             // 音声ファイルを生成
@@ -302,7 +783,7 @@ async function main() {
                 console.log(chalk.blue('\n全チャプターを結合した音声ファイルを生成中...'));
 
                 // 結合した音声ファイルのパス（M4A形式でチャプター対応）
-                const combinedAudioPath = path.join(audioDir, `${epubReader.getFileName()}_完全版.m4a`);
+                const combinedAudioPath = path.join(audioDir, combinedAudioName);
 
                 // 結合音声ファイルを生成（チャプター情報付き）
                 await synthesizer.synthesizeCombined(sourceFiles, combinedAudioPath, chapters);
@@ -338,7 +819,7 @@ async function main() {
                         const durationStr = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
                         
                         const rssPath = await generatePodcastRSS(
-                            epubReader.getFileName(),
+                            episodeName,
                             combinedAudioPath,
                             config.podcast.baseUrl,
                             {
@@ -346,7 +827,8 @@ async function main() {
                                 description: `技術書「${metadata.title}」をポッドキャスト形式で配信`,
                                 category: config.podcast.category,
                                 imageUrl: config.podcast.imageUrl,
-                                duration: durationStr
+                                duration: durationStr,
+                                chapters
                             }
                         );
 
@@ -362,6 +844,29 @@ async function main() {
                     }
                 }
             }
+
+            // 本全体の振り返りは完全版とは別のエピソードとして生成
+            const bookReviewTextPath = path.join(reviewDir, `${bookReviewName}.txt`);
+            if (config.review.mode === 'book' && reviewQuizzes.length > 0 && fs.existsSync(bookReviewTextPath)) {
+                console.log(chalk.blue('\n振り返りエピソードの音声を生成中...'));
+
+                const bookReviewAudioPath = path.join(reviewDir, `${bookReviewName}.mp3`);
+                try {
+                    await synthesizer.synthesize(fs.readFileSync(bookReviewTextPath, 'utf8'), bookReviewAudioPath);
+                    console.log(chalk.green(`振り返りエピソードを生成しました: ${bookReviewAudioPath}`));
+
+                    if (shouldGenerateRSS) {
+                        await generatePodcastRSS(bookReviewName, bookReviewAudioPath, config.podcast.baseUrl, {
+                            author: metadata.creator || config.podcast.author,
+                            description: `技術書「${metadata.title}」の振り返りクイズ`,
+                            category: config.podcast.category,
+                            imageUrl: config.podcast.imageUrl
+                        });
+                    }
+                } catch (error) {
+                    console.log(chalk.yellow(`振り返りエピソードの生成をスキップしました: ${error}`));
+                }
+            }
         } else {
             console.log(chalk.yellow('\n音声合成はスキップされました'));
         }
@@ -370,12 +875,32 @@ async function main() {
         console.log(chalk.green('\n処理が完了しました'));
         console.log(`抽出済みテキストの保存先: ${bookDir}`);
 
+        // 会話調テキストへの変換に失敗したチャプターを報告
+        if (failedChapters.length > 0) {
+            console.log(chalk.red(`\n=== 変換に失敗したチャプター (${failedChapters.length}個) ===`));
+            failedChapters.forEach(chapter => {
+                console.log(chalk.red(`  - ${chapter.fileName}: ${chapter.reason}`));
+            });
+            console.log(chalk.yellow('これらのチャプターは音声に含まれていません。再実行して補完してください。'));
+        }
+
+        // 途中で打ち切られた・短すぎるなど、確認が必要なチャプターを報告
+        if (chapterWarnings.length > 0) {
+            console.log(chalk.yellow(`\n=== 確認が必要なチャプター (${chapterWarnings.length}件) ===`));
+            chapterWarnings.forEach(warning => {
+                console.log(chalk.yellow(`  - ${warning.fileName}: ${warning.message}`));
+            });
+        }
+
         // 使用方法の説明
         console.log(chalk.cyan('\n=== 使用方法 ==='));
         console.log('- 抽出テキスト: output/' + FileManager.sanitizeFileName(epubReader.getFileName()));
         if (processedFiles.length > 0) {
             console.log('- 会話調テキスト: output/' + FileManager.sanitizeFileName(epubReader.getFileName()) + '_narrated');
         }
+        if (reviewQuizzes.length > 0) {
+            console.log('- 振り返りクイズ: output/' + FileManager.sanitizeFileName(epubReader.getFileName()) + '_review');
+        }
         if (shouldSynthesize) {
             console.log('- 音声ファイル: output/' + FileManager.sanitizeFileName(epubReader.getFileName()) + '_audio');
         }
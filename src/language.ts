@@ -0,0 +1,48 @@
+/**
+ * ナレーションで扱う言語
+ */
+export type NarrationLanguage = 'ja' | 'en';
+
+export const SUPPORTED_LANGUAGES: NarrationLanguage[] = ['ja', 'en'];
+
+// プロンプト中で使う言語名
+const LANGUAGE_NAMES: Record<NarrationLanguage, {ja: string; en: string}> = {
+    ja: {ja: '日本語', en: 'Japanese'},
+    en: {ja: '英語', en: 'English'}
+};
+
+/**
+ * EPUBのメタデータなどの言語コード（ja-JP、en-USなど）を対応言語に変換
+ * @returns 対応していない言語の場合はundefined
+ */
+export function normalizeLanguage(code: string | undefined): NarrationLanguage | undefined {
+    if (!code) return undefined;
+    const primary = code.trim().toLowerCase().split(/[-_]/)[0];
+    return SUPPORTED_LANGUAGES.find(language => language === primary);
+}
+
+/**
+ * 原文と出力の言語が異なる場合に、翻訳しながらナレーションにするための指示を生成
+ * 指示は出力言語のテンプレートに埋め込むため、出力言語で書く
+ */
+export function buildTranslationNote(source: NarrationLanguage, target: NarrationLanguage): string {
+    if (source === target) {
+        return '';
+    }
+
+    if (target === 'ja') {
+        return `### 翻訳について：
+
+- 入力テキストは${LANGUAGE_NAMES[source].ja}です。内容を日本語に翻訳しながらナレーションにしてください
+- 逐語訳ではなく、日本語として自然に聞こえる言い回しにしてください
+- 日本の現場でも英語のまま使われる技術用語（例：API、Kubernetes、pull request、microservices）は英語表記のまま残してください
+- 書籍名や人名は原語のまま残し、必要に応じて簡単に補足してください`;
+    }
+
+    return `### Translation:
+
+- The input text is written in ${LANGUAGE_NAMES[source].en}. Translate it into English while turning it into narration
+- Do not translate word for word; use phrasing that sounds natural when spoken in English
+- Use the established English names for technical terms rather than transliterating them
+- Keep book titles and personal names, adding a short explanation where helpful`;
+}
@@ -0,0 +1,386 @@
+import axios from 'axios';
+import {AppConfig} from './config';
+import {LLMRequestError} from './retryPolicy';
+import {MockLLMProvider} from './mockLLMProvider';
+
+/**
+ * LLMプロバイダーの種類
+ */
+export type LLMProviderType = 'openai' | 'openai-compatible' | 'ollama' | 'anthropic' | 'mock';
+
+/**
+ * チャットメッセージの型定義
+ */
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+/**
+ * チャットリクエストの型定義
+ */
+export interface ChatRequest {
+    model: string;
+    messages: ChatMessage[];
+    temperature: number;
+    maxTokens: number;
+    onDelta?: (text: string) => void;   // 指定した場合はストリーミングで受信し、受信したテキストを順に渡す
+}
+
+/**
+ * チャットレスポンスの型定義
+ */
+export interface ChatResponse {
+    content: string;
+    finishReason: FinishReason;
+    usage?: TokenUsage;   // プロバイダーが返した実際の利用トークン数
+    raw: any;   // プロバイダーから返された生のレスポンス（デバッグ用）
+}
+
+/**
+ * 生成の終了理由
+ * stop: 正常終了、length: 最大トークン数に達して途中で打ち切られた、other: その他
+ */
+export type FinishReason = 'stop' | 'length' | 'other';
+
+/**
+ * トークン利用量の型定義
+ */
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+/**
+ * LLMプロバイダーの共通インターフェース
+ */
+export interface LLMProvider {
+    readonly name: string;
+    readonly requiresApiKey: boolean;
+    chat(request: ChatRequest): Promise<ChatResponse>;
+}
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const OLLAMA_BASE_URL = 'http://localhost:11434/v1';
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * OpenAI互換APIの終了理由を変換
+ */
+function toOpenAIFinishReason(reason: string | null | undefined): FinishReason {
+    return reason === 'length' ? 'length' : reason === 'stop' ? 'stop' : 'other';
+}
+
+/**
+ * Anthropic Messages APIの終了理由を変換
+ */
+function toAnthropicFinishReason(reason: string | null | undefined): FinishReason {
+    return reason === 'max_tokens' ? 'length' : reason === 'end_turn' || reason === 'stop_sequence' ? 'stop' : 'other';
+}
+
+/**
+ * ストリーミングで要求したリクエストのエラーレスポンスを読み込む
+ * responseType: 'stream' ではエラー時もボディがストリームのままのため、
+ * エラーの分類（認証エラー・クォータ切れなど）ができるようにJSONとして読み込んでおく
+ */
+async function readStreamErrorBody(error: unknown): Promise<never> {
+    if (axios.isAxiosError(error) && error.response?.data && typeof error.response.data.on === 'function') {
+        let body = '';
+        try {
+            for await (const chunk of error.response.data) {
+                body += chunk.toString('utf8');
+            }
+            error.response.data = JSON.parse(body);
+        } catch (parseError) {
+            error.response.data = {error: {message: body || error.message}};
+        }
+    }
+    throw error;
+}
+
+/**
+ * 終了理由を受け取らないままストリームが終わった場合のエラー
+ * 接続が途中で切れて出力が欠けている可能性があるため、正常終了として扱わずに再試行する
+ */
+function createIncompleteStreamError(): LLMRequestError {
+    return new LLMRequestError('ストリーミングが終了理由を受け取らないまま終了しました（出力が途中で切れている可能性があります）', {
+        retryable: true,
+        fatal: false
+    });
+}
+
+/**
+ * Server-Sent Eventsのストリームを読み、各イベントのdataをJSONとして順に渡す
+ */
+async function readServerSentEvents(stream: AsyncIterable<Buffer>, onData: (data: any) => void): Promise<void> {
+    // マルチバイト文字がチャンクの境目で分かれても壊れないようにデコードする
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    // 1行を処理し、終了の合図（[DONE]）だった場合はtrueを返す
+    const handleLine = (rawLine: string): boolean => {
+        const line = rawLine.trim();
+        if (!line.startsWith('data:')) return false;
+        const data = line.slice('data:'.length).trim();
+        if (data === '[DONE]') return true;
+        onData(JSON.parse(data));
+        return false;
+    };
+
+    try {
+        for await (const chunk of stream) {
+            buffer += decoder.decode(chunk, {stream: true});
+
+            let newline: number;
+            while ((newline = buffer.indexOf('\n')) !== -1) {
+                const line = buffer.slice(0, newline);
+                buffer = buffer.slice(newline + 1);
+                if (handleLine(line)) return;
+            }
+        }
+
+        // 末尾に改行のないまま終わった最後のイベントも処理する
+        buffer += decoder.decode();
+        handleLine(buffer);
+    } catch (error) {
+        if (error instanceof LLMRequestError) {
+            throw error;
+        }
+        // 受信の途中で接続が切れた場合などは、最初からやり直せば回復する見込みがある
+        throw new LLMRequestError(`ストリーミングの受信が途中で失敗しました (${error instanceof Error ? error.message : error})`, {
+            retryable: true,
+            fatal: false
+        });
+    }
+}
+
+/**
+ * OpenAI Chat Completions API互換のプロバイダー
+ * OpenAI本家の他、vLLM・LM Studio・Ollamaなど互換エンドポイントにも対応
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly name: string;
+    readonly requiresApiKey: boolean;
+    private baseUrl: string;
+    private apiKey: string;
+
+    constructor(name: string, baseUrl: string, apiKey: string, requiresApiKey: boolean) {
+        this.name = name;
+        this.baseUrl = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
+        this.apiKey = apiKey;
+        this.requiresApiKey = requiresApiKey;
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json'
+        };
+        // ローカルのエンドポイントではAPIキーが不要な場合がある
+        if (this.apiKey) {
+            headers['Authorization'] = `Bearer ${this.apiKey}`;
+        }
+
+        const body = {
+            model: request.model,
+            messages: request.messages,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens
+        };
+
+        if (request.onDelta) {
+            return this.chatStream(body, headers, request.onDelta);
+        }
+
+        const response = await axios.post(`${this.baseUrl}/chat/completions`, body, {headers});
+
+        const choice = response.data.choices[0];
+        const usage = response.data.usage;
+        return {
+            content: choice.message.content,
+            finishReason: toOpenAIFinishReason(choice.finish_reason),
+            usage: usage ? {inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens} : undefined,
+            raw: response.data
+        };
+    }
+
+    /**
+     * ストリーミングで受信し、受信したテキストを順にonDeltaへ渡す
+     */
+    private async chatStream(body: object, headers: Record<string, string>, onDelta: (text: string) => void): Promise<ChatResponse> {
+        const response = await axios.post(
+            `${this.baseUrl}/chat/completions`,
+            {
+                ...body,
+                stream: true,
+                // 利用トークン数を最後のイベントで返させる（互換エンドポイントは未対応の場合があるためOpenAI本家のみ）
+                ...(this.name === 'openai' ? {stream_options: {include_usage: true}} : {})
+            },
+            {headers, responseType: 'stream'}
+        ).catch(readStreamErrorBody);
+
+        let content = '';
+        let finishReason: string | undefined;
+        let usage: any;
+        let lastEvent: any;
+        await readServerSentEvents(response.data, data => {
+            lastEvent = data;
+            const choice = data.choices?.[0];
+            const delta = choice?.delta?.content;
+            if (delta) {
+                content += delta;
+                onDelta(delta);
+            }
+            if (choice?.finish_reason) {
+                finishReason = choice.finish_reason;
+            }
+            if (data.usage) {
+                usage = data.usage;
+            }
+        });
+        if (!finishReason) {
+            throw createIncompleteStreamError();
+        }
+
+        return {
+            content,
+            finishReason: toOpenAIFinishReason(finishReason),
+            usage: usage ? {inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens} : undefined,
+            raw: lastEvent
+        };
+    }
+}
+
+/**
+ * Anthropic Messages APIのプロバイダー
+ */
+export class AnthropicProvider implements LLMProvider {
+    readonly name = 'anthropic';
+    readonly requiresApiKey = true;
+    private baseUrl: string;
+    private apiKey: string;
+
+    constructor(baseUrl: string, apiKey: string) {
+        this.baseUrl = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
+        this.apiKey = apiKey;
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+        // Messages APIではシステムプロンプトをmessagesとは別に渡す
+        const system = request.messages
+            .filter(message => message.role === 'system')
+            .map(message => message.content)
+            .join('\n\n');
+        const messages = request.messages.filter(message => message.role !== 'system');
+
+        const body = {
+            model: request.model,
+            system: system || undefined,
+            messages: messages,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens
+        };
+        const headers = {
+            'Content-Type': 'application/json',
+            'x-api-key': this.apiKey,
+            'anthropic-version': ANTHROPIC_VERSION
+        };
+
+        if (request.onDelta) {
+            return this.chatStream(body, headers, request.onDelta);
+        }
+
+        const response = await axios.post(`${this.baseUrl}/messages`, body, {headers});
+
+        // テキストブロックのみを結合
+        const content = (response.data.content || [])
+            .filter((block: any) => block.type === 'text')
+            .map((block: any) => block.text)
+            .join('');
+
+        const stopReason = response.data.stop_reason;
+        const usage = response.data.usage;
+        return {
+            content,
+            finishReason: toAnthropicFinishReason(stopReason),
+            usage: usage ? {inputTokens: usage.input_tokens, outputTokens: usage.output_tokens} : undefined,
+            raw: response.data
+        };
+    }
+
+    /**
+     * ストリーミングで受信し、受信したテキストを順にonDeltaへ渡す
+     */
+    private async chatStream(body: object, headers: Record<string, string>, onDelta: (text: string) => void): Promise<ChatResponse> {
+        const response = await axios.post(`${this.baseUrl}/messages`, {...body, stream: true}, {headers, responseType: 'stream'})
+            .catch(readStreamErrorBody);
+
+        let content = '';
+        let stopReason: string | undefined;
+        let inputTokens: number | undefined;
+        let outputTokens: number | undefined;
+        let lastEvent: any;
+        await readServerSentEvents(response.data, data => {
+            lastEvent = data;
+            switch (data.type) {
+                case 'message_start':
+                    inputTokens = data.message?.usage?.input_tokens;
+                    break;
+                case 'content_block_delta':
+                    if (data.delta?.type === 'text_delta') {
+                        content += data.delta.text;
+                        onDelta(data.delta.text);
+                    }
+                    break;
+                case 'message_delta':
+                    stopReason = data.delta?.stop_reason ?? stopReason;
+                    outputTokens = data.usage?.output_tokens ?? outputTokens;
+                    break;
+                case 'error':
+                    // 過負荷などのエラーはストリームの途中でイベントとして返される
+                    throw new LLMRequestError(`LLM APIのストリーミング中にエラーが発生しました: ${data.error?.message || data.error?.type}`, {
+                        retryable: data.error?.type === 'overloaded_error',
+                        fatal: false
+                    });
+            }
+        });
+        if (!stopReason) {
+            throw createIncompleteStreamError();
+        }
+
+        return {
+            content,
+            finishReason: toAnthropicFinishReason(stopReason),
+            usage: inputTokens !== undefined && outputTokens !== undefined ? {inputTokens, outputTokens} : undefined,
+            raw: lastEvent
+        };
+    }
+}
+
+/**
+ * 設定からLLMプロバイダーを生成
+ */
+export function createLLMProvider(llmConfig: AppConfig['llm']): LLMProvider {
+    switch (llmConfig.provider) {
+        case 'openai':
+            return new OpenAICompatibleProvider(
+                'openai',
+                llmConfig.baseUrl || OPENAI_BASE_URL,
+                llmConfig.apiKey || '',
+                true
+            );
+        case 'openai-compatible':
+            if (!llmConfig.baseUrl) {
+                throw new Error('openai-compatibleプロバイダーにはLLM_BASE_URLの設定が必要です。');
+            }
+            return new OpenAICompatibleProvider('openai-compatible', llmConfig.baseUrl, llmConfig.apiKey || '', false);
+        case 'ollama':
+            return new OpenAICompatibleProvider('ollama', llmConfig.baseUrl || OLLAMA_BASE_URL, llmConfig.apiKey || '', false);
+        case 'anthropic':
+            return new AnthropicProvider(llmConfig.baseUrl || ANTHROPIC_BASE_URL, llmConfig.apiKey || '');
+        case 'mock':
+            return new MockLLMProvider();
+        default:
+            throw new Error(`未対応のLLMプロバイダーです: ${llmConfig.provider}`);
+    }
+}
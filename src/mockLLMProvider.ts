@@ -0,0 +1,131 @@
+import {ChatRequest, ChatResponse, LLMProvider} from './llmProvider';
+import {GLOSSARY_EXTRACTION_PROMPT} from './glossary';
+import {ENGLISH_SPEAKER_LABELS, SPEAKER_LABELS, SpeakerId} from './dialogueScript';
+
+// 入力に対するナレーションの文字数の比率
+const NARRATION_RATIO = 0.5;
+// ナレーションで段落を区切る文の数
+const SENTENCES_PER_PARAGRAPH = 3;
+// 用語集・キーワードとして取り出す語の最大数
+const MAX_TERMS = 10;
+// 振り返りクイズの問題数
+const QUIZ_QUESTION_COUNT = 3;
+// ストリーミングで1回に渡す文字数
+const STREAM_CHUNK_LENGTH = 20;
+
+/**
+ * APIを呼び出さずに、入力から決まった出力を返すLLMプロバイダー
+ * 外部サービスなしでパイプライン全体（チャプターの時間計算・RSS生成など）を動かすために使う
+ * システムプロンプトから要求されている形式（用語集・振り返りクイズ・対話・構造化出力）を判定し、その形式で返す
+ */
+export class MockLLMProvider implements LLMProvider {
+    readonly name = 'mock';
+    readonly requiresApiKey = false;
+
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+        const system = request.messages
+            .filter(message => message.role === 'system')
+            .map(message => message.content)
+            .join('\n\n');
+        // 続きの要求や書き直しの指示では、最初の入力から同じ出力を作り直す
+        const input = request.messages.find(message => message.role === 'user')?.content || '';
+
+        const content = this.respond(system, input);
+        if (request.onDelta) {
+            for (let i = 0; i < content.length; i += STREAM_CHUNK_LENGTH) {
+                request.onDelta(content.slice(i, i + STREAM_CHUNK_LENGTH));
+            }
+        }
+
+        return {content, finishReason: 'stop', raw: {provider: this.name, model: request.model}};
+    }
+
+    private respond(system: string, input: string): string {
+        const sentences = splitSentences(input);
+
+        if (system === GLOSSARY_EXTRACTION_PROMPT) {
+            // 読みは分からないため空にする（読みの置き換えは行われない）
+            return JSON.stringify(extractTerms(input).map(term => ({term, reading: '', definition: ''})));
+        }
+
+        if (system.includes('振り返りクイズ')) {
+            return JSON.stringify(sentences.slice(0, QUIZ_QUESTION_COUNT).map((sentence, index) => ({
+                question: `${index + 1}つ目の要点は何だった？`,
+                answer: sentence
+            })));
+        }
+
+        const narration = this.buildNarration(system, sentences);
+        if (!system.includes('"narration"')) {
+            return narration;
+        }
+
+        // 構造化出力が求められている場合はスキーマに沿ったJSONで返す
+        return JSON.stringify({
+            narration,
+            summary: sentences.slice(0, 2).join('') || 'モックの要約',
+            takeaways: sentences.length > 0 ? sentences.slice(0, 3) : ['モックの要点'],
+            keywords: extractTerms(input),
+            references: []
+        });
+    }
+
+    /**
+     * 入力の先頭から一定の割合の文を使ってナレーションを作る
+     * 対話の形式が求められている場合は、ホストとゲストが交互に話す形にする
+     */
+    private buildNarration(system: string, sentences: string[]): string {
+        const totalLength = sentences.reduce((sum, sentence) => sum + sentence.length, 0);
+        const selected: string[] = [];
+        let length = 0;
+        for (const sentence of sentences) {
+            if (selected.length > 0 && length >= totalLength * NARRATION_RATIO) break;
+            selected.push(sentence);
+            length += sentence.length;
+        }
+        if (selected.length === 0) {
+            selected.push('このチャプターには読み上げる内容がありません。');
+        }
+
+        const labels = system.includes(`"${ENGLISH_SPEAKER_LABELS.host}:"`)
+            ? ENGLISH_SPEAKER_LABELS
+            : system.includes(`${SPEAKER_LABELS.host}：`) ? SPEAKER_LABELS : null;
+        if (labels) {
+            const separator = labels === ENGLISH_SPEAKER_LABELS ? ': ' : '：';
+            return selected
+                .map((sentence, index) => {
+                    const speaker: SpeakerId = index % 2 === 0 ? 'host' : 'guest';
+                    return `${labels[speaker]}${separator}${sentence}`;
+                })
+                .join('\n\n');
+        }
+
+        const paragraphs: string[] = [];
+        for (let i = 0; i < selected.length; i += SENTENCES_PER_PARAGRAPH) {
+            paragraphs.push(selected.slice(i, i + SENTENCES_PER_PARAGRAPH).join(''));
+        }
+        return paragraphs.join('\n\n');
+    }
+}
+
+/**
+ * 入力テキストからコードやURL、記号を除いて文に分割
+ */
+function splitSentences(text: string): string[] {
+    return text
+        .replace(/```[\s\S]*?```/g, '')
+        .replace(/https?:\/\/\S+/g, '')
+        .replace(/<[^>]+>/g, '')
+        .replace(/[#*`>|]/g, '')
+        .split(/(?<=[。！？!?]|\.\s)|\n+/)
+        .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+        .filter(sentence => sentence.length > 1);
+}
+
+/**
+ * 入力テキストから英字の用語（3文字以上で大文字を含む語）を出現順に取り出す
+ */
+function extractTerms(text: string): string[] {
+    const terms = text.match(/\b[A-Za-z][A-Za-z0-9]*[A-Z][A-Za-z0-9]*\b|\b[A-Z][A-Za-z0-9]{2,}\b/g) || [];
+    return Array.from(new Set(terms.filter(term => term.length >= 3))).slice(0, MAX_TERMS);
+}
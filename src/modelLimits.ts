@@ -0,0 +1,36 @@
+/**
+ * モデルのトークン上限
+ */
+export interface ModelLimits {
+    contextWindow: number;    // 入力と出力を合わせたコンテキスト長
+    maxOutputTokens: number;  // 1回の応答で出力できる最大トークン数
+}
+
+/**
+ * 主なモデルのトークン上限（モデル名の前方一致で検索する）
+ */
+const MODEL_LIMITS: Record<string, ModelLimits> = {
+    'gpt-4.1': {contextWindow: 1047576, maxOutputTokens: 32768},
+    'gpt-4o': {contextWindow: 128000, maxOutputTokens: 16384},
+    'gpt-4': {contextWindow: 8192, maxOutputTokens: 8192},
+    'gpt-3.5-turbo': {contextWindow: 16385, maxOutputTokens: 4096},
+    'claude-opus-4': {contextWindow: 200000, maxOutputTokens: 32000},
+    'claude-sonnet-4': {contextWindow: 200000, maxOutputTokens: 64000},
+    'claude-3-5-haiku': {contextWindow: 200000, maxOutputTokens: 8192}
+};
+
+// 表にないモデル（ローカルモデルなど）の既定値
+const DEFAULT_LIMITS: ModelLimits = {contextWindow: 32768, maxOutputTokens: 8192};
+
+/**
+ * モデル名からトークン上限を取得
+ * @param contextWindowOverride 設定で指定されたコンテキスト長（ローカルモデル向け）
+ */
+export function getModelLimits(model: string, contextWindowOverride?: number): ModelLimits {
+    const matched = Object.keys(MODEL_LIMITS)
+        .filter(name => model === name || model.startsWith(`${name}-`))
+        .sort((a, b) => b.length - a.length)[0];
+    const limits = matched ? MODEL_LIMITS[matched] : DEFAULT_LIMITS;
+
+    return contextWindowOverride ? {...limits, contextWindow: contextWindowOverride} : limits;
+}
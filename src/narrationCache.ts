@@ -0,0 +1,110 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {ChatMessage} from './llmProvider';
+
+/**
+ * キャッシュ統計の型定義
+ */
+export interface CacheStats {
+    hits: number;
+    misses: number;
+    writes: number;
+}
+
+/**
+ * キャッシュエントリの型定義
+ */
+interface CacheEntry {
+    model: string;
+    temperature: number;
+    createdAt: string;
+    content: string;
+}
+
+/**
+ * ナレーション結果のキャッシュ
+ * 入力テキスト・プロンプト・モデル・温度のハッシュをキーとして保存し、
+ * 入力が変わらないチャプターはAPIに再送しない
+ */
+export class NarrationCache {
+    private cacheDir: string;
+    private refresh: boolean;
+    private stats: CacheStats = {hits: 0, misses: 0, writes: 0};
+
+    /**
+     * @param cacheDir キャッシュの保存先ディレクトリ
+     * @param refresh trueの場合は既存のキャッシュを読まずに上書きする
+     */
+    constructor(cacheDir: string, refresh: boolean = false) {
+        this.cacheDir = cacheDir;
+        this.refresh = refresh;
+    }
+
+    /**
+     * リクエスト内容からキャッシュキーを生成
+     */
+    static createKey(messages: ChatMessage[], model: string, temperature: number): string {
+        const hash = crypto.createHash('sha256');
+        hash.update(JSON.stringify({messages, model, temperature}));
+        return hash.digest('hex');
+    }
+
+    /**
+     * キャッシュファイルのパスを取得
+     */
+    private getEntryPath(key: string): string {
+        // 1ディレクトリのファイル数が増えすぎないよう先頭2文字で分ける
+        return path.join(this.cacheDir, key.substring(0, 2), `${key}.json`);
+    }
+
+    /**
+     * キャッシュから取得（見つからなければnull）
+     */
+    get(key: string): string | null {
+        const entryPath = this.getEntryPath(key);
+
+        if (this.refresh || !fs.existsSync(entryPath)) {
+            this.stats.misses++;
+            return null;
+        }
+
+        try {
+            const entry: CacheEntry = JSON.parse(fs.readFileSync(entryPath, 'utf8'));
+            this.stats.hits++;
+            return entry.content;
+        } catch (error) {
+            // 壊れたキャッシュは無視して再取得する
+            console.warn(`キャッシュの読み込みに失敗しました: ${entryPath}`);
+            this.stats.misses++;
+            return null;
+        }
+    }
+
+    /**
+     * キャッシュに保存
+     */
+    set(key: string, content: string, model: string, temperature: number): void {
+        const entryPath = this.getEntryPath(key);
+        const dir = path.dirname(entryPath);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, {recursive: true});
+        }
+
+        const entry: CacheEntry = {
+            model,
+            temperature,
+            createdAt: new Date().toISOString(),
+            content
+        };
+        fs.writeFileSync(entryPath, JSON.stringify(entry, null, 2), 'utf8');
+        this.stats.writes++;
+    }
+
+    /**
+     * キャッシュ統計を取得
+     */
+    getStats(): CacheStats {
+        return {...this.stats};
+    }
+}
@@ -0,0 +1,144 @@
+import {NarrationLanguage} from './language';
+
+/**
+ * ナレーションの分量モード
+ * digest: 要点だけの短いダイジェスト、standard: 通常、deep: 背景まで掘り下げる詳細版
+ */
+export type LengthMode = 'digest' | 'standard' | 'deep';
+
+/**
+ * 分量モードの設定
+ */
+interface LengthModeSettings {
+    description: string;
+    minutesPerChapter: number;  // 1チャプターあたりの再生時間の目安（分）
+    maxSourceRatio: number;     // 原文の文字数に対する上限（短いチャプターを引き延ばさないため）
+    instruction: string;        // 分量に関する追加の指示
+    instructionEn: string;      // 英語でナレーションする場合の追加の指示
+}
+
+export const LENGTH_MODES: Record<LengthMode, LengthModeSettings> = {
+    digest: {
+        description: '1チャプター約5分の要点だけのダイジェスト',
+        minutesPerChapter: 5,
+        maxSourceRatio: 0.3,
+        instruction: `※要点に絞り、細かい例や補足は省いてください。
+※聞き終えたときに「この章で何が語られているか」がわかることを優先してください。`,
+        instructionEn: `- Focus on the key points and skip detailed examples and asides.
+- Prioritise leaving the listener with a clear idea of what the chapter covers.`
+    },
+    standard: {
+        description: '1チャプター約15分の通常の分量（既定）',
+        minutesPerChapter: 15,
+        maxSourceRatio: 0.8,
+        instruction: '',
+        instructionEn: ''
+    },
+    deep: {
+        description: '1チャプター約30分の背景や具体例まで掘り下げた詳細版',
+        minutesPerChapter: 30,
+        maxSourceRatio: 1.2,
+        instruction: `※具体例や背景、関連する話題まで掘り下げて詳しく解説してください。
+※同じ内容の繰り返しで長くするのではなく、説明を深めることで分量を出してください。`,
+        instructionEn: `- Dig into concrete examples, background and related topics in detail.
+- Reach the length by deepening the explanation, not by repeating the same points.`
+    }
+};
+
+// sayの読み上げ速度（1分あたりの単語数）を文字数（空白を除く）に換算する係数
+const CHARS_PER_WORD: Record<NarrationLanguage, number> = {
+    ja: 1.5,
+    en: 5
+};
+
+// 目標の再生時間に対して許容する範囲
+const MIN_TARGET_RATIO = 0.5;
+const MAX_TARGET_RATIO = 1.5;
+
+/**
+ * チャプターの分量の目標
+ */
+export interface LengthTarget {
+    minutes: number;
+    chars: number;
+}
+
+/**
+ * 読み上げ速度から1分あたりの文字数を計算
+ */
+export function getCharsPerMinute(speechRate: number, language: NarrationLanguage = 'ja'): number {
+    return Math.round(speechRate * CHARS_PER_WORD[language]);
+}
+
+/**
+ * テキストの再生時間（分）を見積もる
+ */
+export function estimateListeningMinutes(text: string, speechRate: number, language: NarrationLanguage = 'ja'): number {
+    return text.replace(/\s+/g, '').length / getCharsPerMinute(speechRate, language);
+}
+
+/**
+ * チャプターの分量の目標を計算
+ * @param sourceLength 整形済みの原文の文字数
+ * @param minutesOverride 設定で指定された1チャプターあたりの再生時間（分）
+ * @param language ナレーションの言語
+ */
+export function getLengthTarget(
+    mode: LengthMode,
+    sourceLength: number,
+    speechRate: number,
+    minutesOverride?: number,
+    language: NarrationLanguage = 'ja'
+): LengthTarget {
+    const settings = LENGTH_MODES[mode];
+    const charsPerMinute = getCharsPerMinute(speechRate, language);
+    const budgetChars = (minutesOverride || settings.minutesPerChapter) * charsPerMinute;
+    const chars = Math.max(charsPerMinute, Math.round(Math.min(budgetChars, sourceLength * settings.maxSourceRatio)));
+
+    return {minutes: chars / charsPerMinute, chars};
+}
+
+/**
+ * 目標の一部（分割したチャンクの分）を計算
+ */
+export function scaleLengthTarget(target: LengthTarget, ratio: number): LengthTarget {
+    return {minutes: target.minutes * ratio, chars: Math.round(target.chars * ratio)};
+}
+
+/**
+ * プロンプトに埋め込む分量の指示を生成
+ * @param baseInstruction ペルソナの分量の指示（standardモードで使用）
+ */
+export function buildTargetLengthInstruction(
+    mode: LengthMode,
+    target: LengthTarget,
+    baseInstruction: string,
+    language: NarrationLanguage = 'ja'
+): string {
+    const minutes = Math.max(1, Math.round(target.minutes));
+    const budget = language === 'en'
+        ? `- Aim for about ${minutes} minutes of narration (roughly ${Math.round(target.chars / CHARS_PER_WORD.en)} words).`
+        : `※約${minutes}分（${target.chars}文字程度）で読み上げられる分量を目安にしてください。`;
+    const modeInstruction = language === 'en' ? LENGTH_MODES[mode].instructionEn : LENGTH_MODES[mode].instruction;
+    const instruction = mode === 'standard' ? baseInstruction : modeInstruction;
+    return instruction ? `${budget}\n${instruction}` : budget;
+}
+
+/**
+ * 生成されたナレーションが目標の再生時間からかけ離れていないか確認
+ * @returns 目標の範囲外の場合は警告メッセージ、範囲内ならnull
+ */
+export function checkLengthTarget(
+    text: string,
+    target: LengthTarget,
+    speechRate: number,
+    language: NarrationLanguage = 'ja'
+): string | null {
+    const minutes = estimateListeningMinutes(text, speechRate, language);
+    const ratio = minutes / target.minutes;
+    if (ratio >= MIN_TARGET_RATIO && ratio <= MAX_TARGET_RATIO) {
+        return null;
+    }
+
+    return `ナレーションの再生時間が目標から外れています (目標 約${target.minutes.toFixed(1)}分 / 見込み 約${minutes.toFixed(1)}分)`;
+}
@@ -0,0 +1,219 @@
+import {NarrationLanguage} from './language';
+import {Persona} from './promptTemplate';
+
+/**
+ * 品質チェックのルール
+ * code: コードブロックやバッククォート（sayが記号をそのまま読み上げてしまう）
+ * keigo: 「です・ます」調の文末
+ * pronoun: ペルソナで禁止されている一人称
+ * url: URL
+ * episode: 「今日は」「今回は」（英語では"today"・"in this episode"）などエピソード単位の言い回し
+ */
+export type LintRule = 'code' | 'keigo' | 'pronoun' | 'url' | 'episode';
+
+/**
+ * ルール違反
+ */
+export interface LintViolation {
+    rule: LintRule;
+    message: string;
+    examples: string[];   // 違反箇所の抜粋（再生成の指示に含める）
+}
+
+/**
+ * 品質チェックの設定
+ */
+export interface LintOptions {
+    persona: Persona;
+    maxKeigoRatio: number;   // 「です・ます」で終わる文の割合の上限
+    language?: NarrationLanguage;  // ナレーションの言語（未指定の場合は日本語）
+}
+
+/**
+ * チャプターごとの品質レポート
+ */
+export interface ChapterQualityReport {
+    fileName: string;
+    attempts: number;                    // 再生成を含むチェックの回数
+    initialViolations: LintViolation[];  // 最初の生成結果での違反
+    remainingViolations: LintViolation[];  // 最終的に残った違反
+}
+
+// 違反箇所の抜粋の最大件数と前後の文字数
+const MAX_EXAMPLES = 3;
+const EXAMPLE_CONTEXT_LENGTH = 15;
+
+// 「です・ます」調の文末
+const KEIGO_ENDING_REGEX = /(です|ます|でした|ました|ません|ましょう|でしょう|ください)[かねよ]?[」』）)]*$/;
+
+// コードらしい行（宣言・制御構文で始まる、またはセミコロンや波括弧で終わる）
+const CODE_LINE_REGEX = /^\s*(?:(?:const|let|var|function|class|import|export|def|public|private|return)\s|(?:if|for|while)\s*\().*|.*[;{}]\s*$/;
+
+const URL_REGEX = /https?:\/\/[^\s」）)]+|www\.[^\s」）)]+/g;
+
+// エピソード単位の言い回し（チャプターが連続して再生されるため不自然になる）
+const EPISODE_PHRASE_REGEX = /今日は|今回は|本日は|今回の(?:エピソード|放送|配信)/g;
+const ENGLISH_EPISODE_PHRASE_REGEX = /\b(?:today(?:'s episode)?|in this (?:episode|show)|on this episode)\b/gi;
+
+// 書き直しを求める英語のプロンプトで使うルールの説明（英語のペルソナでは keigo・pronoun は検出しない）
+const ENGLISH_RULE_MESSAGES: Record<LintRule, string> = {
+    code: 'The output contains source code or backticks (the symbols would be read aloud as-is)',
+    keigo: 'Too many sentences use an overly formal register',
+    pronoun: 'The output uses a first-person pronoun the persona does not use',
+    url: 'The output contains URLs',
+    episode: 'The output uses episode-style phrases such as "today" or "in this episode"'
+};
+
+// 一人称を含むが一人称ではない語
+const PRONOUN_COMPOUND_EXCLUSIONS: Record<string, string[]> = {
+    '私': ['私立', '私的', '私鉄', '私物', '私服', '私語', '私用', '私有', '私見'],
+    '僕': ['下僕', '公僕']
+};
+
+/**
+ * 一致した箇所の前後を抜粋する
+ */
+function excerpt(text: string, index: number, length: number): string {
+    const start = Math.max(0, index - EXAMPLE_CONTEXT_LENGTH);
+    const end = Math.min(text.length, index + length + EXAMPLE_CONTEXT_LENGTH);
+    return text.slice(start, end).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * 正規表現に一致した箇所の抜粋を集める
+ */
+function collectMatches(text: string, regex: RegExp): string[] {
+    return Array.from(text.matchAll(regex))
+        .slice(0, MAX_EXAMPLES)
+        .map(match => excerpt(text, match.index!, match[0].length));
+}
+
+/**
+ * 文に分割する
+ */
+function splitSentences(text: string): string[] {
+    return text
+        .split(/(?<=[。！？!?])|\n/)
+        .map(sentence => sentence.trim())
+        .filter(sentence => sentence.length > 0);
+}
+
+/**
+ * コードブロック・バッククォート・コードらしい行を検出
+ */
+function checkCode(text: string): LintViolation | null {
+    const examples = collectMatches(text, /```|`[^`\n]+`/g);
+    for (const line of text.split('\n')) {
+        if (examples.length >= MAX_EXAMPLES) break;
+        if (CODE_LINE_REGEX.test(line)) {
+            examples.push(line.trim());
+        }
+    }
+
+    return examples.length > 0
+        ? {rule: 'code', message: 'コードやバッククォートが含まれています（記号がそのまま読み上げられます）', examples}
+        : null;
+}
+
+/**
+ * 「です・ます」で終わる文の割合が上限を超えていないか確認
+ */
+function checkKeigo(text: string, maxRatio: number): LintViolation | null {
+    const sentences = splitSentences(text);
+    if (sentences.length === 0) return null;
+
+    const keigoSentences = sentences.filter(sentence => KEIGO_ENDING_REGEX.test(sentence.replace(/[。！？!?]+$/, '')));
+    const ratio = keigoSentences.length / sentences.length;
+    if (ratio <= maxRatio) return null;
+
+    return {
+        rule: 'keigo',
+        message: `「です・ます」調の文が多すぎます (${keigoSentences.length}/${sentences.length}文, ${(ratio * 100).toFixed(0)}%)`,
+        examples: keigoSentences.slice(0, MAX_EXAMPLES)
+    };
+}
+
+/**
+ * ペルソナで禁止されている一人称を検出
+ */
+function checkPronouns(text: string, pronouns: string[]): LintViolation | null {
+    const examples: string[] = [];
+    const found: string[] = [];
+
+    for (const pronoun of pronouns) {
+        const exclusions = PRONOUN_COMPOUND_EXCLUSIONS[pronoun] || [];
+        let index = text.indexOf(pronoun);
+        while (index !== -1) {
+            const isCompound = exclusions.some(word => text.startsWith(word, index - word.indexOf(pronoun)));
+            if (!isCompound) {
+                if (!found.includes(pronoun)) found.push(pronoun);
+                if (examples.length < MAX_EXAMPLES) examples.push(excerpt(text, index, pronoun.length));
+            }
+            index = text.indexOf(pronoun, index + pronoun.length);
+        }
+    }
+
+    return found.length > 0
+        ? {rule: 'pronoun', message: `使用しない一人称が含まれています (${found.map(p => `「${p}」`).join('、')})`, examples}
+        : null;
+}
+
+/**
+ * ナレーションがプロンプトの指示に従っているかを確認
+ * @returns 違反の一覧（違反がなければ空配列）
+ */
+export function lintNarration(text: string, options: LintOptions): LintViolation[] {
+    const violations: (LintViolation | null)[] = [
+        checkCode(text),
+        options.persona.forbidKeigo ? checkKeigo(text, options.maxKeigoRatio) : null,
+        checkPronouns(text, options.persona.forbiddenPronouns)
+    ];
+
+    const urls = collectMatches(text, URL_REGEX);
+    if (urls.length > 0) {
+        violations.push({rule: 'url', message: 'URLが含まれています', examples: urls});
+    }
+
+    const episodePhrases = collectMatches(text, options.language === 'en' ? ENGLISH_EPISODE_PHRASE_REGEX : EPISODE_PHRASE_REGEX);
+    if (episodePhrases.length > 0) {
+        violations.push({rule: 'episode', message: '「今日は」「今回は」のようなエピソード単位の言い回しが含まれています', examples: episodePhrases});
+    }
+
+    return violations.filter((violation): violation is LintViolation => violation !== null);
+}
+
+/**
+ * 違反の内容を伝えて書き直しを求めるプロンプトを生成
+ * @param language ナレーションの言語（出力言語で指示する）
+ */
+export function buildLintFixPrompt(violations: LintViolation[], language: NarrationLanguage = 'ja'): string {
+    const en = language === 'en';
+    const details = violations
+        .map(violation => {
+            const message = en ? ENGLISH_RULE_MESSAGES[violation.rule] : violation.message;
+            const examples = violation.examples.map(example => en ? `  - "${example}"` : `  - 「${example}」`).join('\n');
+            return examples ? `- ${message}\n${examples}` : `- ${message}`;
+        })
+        .join('\n');
+
+    if (en) {
+        return `Your previous output breaks the following rules.
+${details}
+
+Fix these problems and output the whole text again from beginning to end, in the same format as before.
+Do not cut any content, and do not add explanations of the changes or any preamble.`;
+    }
+
+    return `直前の出力には次のルール違反があります。
+${details}
+
+違反箇所を修正したうえで、直前と同じ形式で出力全体をもう一度最初から最後まで出力してください。
+内容は削らず、修正の説明や前置きは書かないでください。`;
+}
+
+/**
+ * 違反の一覧を1行の文字列にまとめる（警告表示用）
+ */
+export function summarizeViolations(violations: LintViolation[]): string {
+    return violations.map(violation => violation.message).join(' / ');
+}
@@ -0,0 +1,215 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * ナレーションのレビュー状態
+ * pending: 確認待ち、approved: 承認済み（音声化してよい）、rejected: 差し戻し（再生成が必要）
+ */
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * チャプターごとのレビュー情報
+ */
+export interface ChapterReviewEntry {
+    status: ReviewStatus;
+    version: number;     // 現在のnarrated_*.txtの版（再生成で内容が変わるたびに1つ増える）
+    updatedAt: string;
+}
+
+/**
+ * _narratedディレクトリのレビュー状態の一覧（review-manifest.json）
+ */
+export interface ReviewManifest {
+    version: 1;
+    chapters: Record<string, ChapterReviewEntry>;   // キーはnarrated_XX-タイトル.txt
+}
+
+/**
+ * 再生成の結果
+ * created: 初めて生成された、updated: 内容が変わり前の版を保存した、unchanged: 前と同じ内容
+ */
+export type NarrationUpdate = 'created' | 'updated' | 'unchanged';
+
+// 差分で変更箇所の前後に表示する行数
+const DIFF_CONTEXT_LINES = 1;
+
+/**
+ * レビュー状態のファイルのパスを取得
+ */
+export function getManifestPath(narratedDir: string): string {
+    return path.join(narratedDir, 'review-manifest.json');
+}
+
+/**
+ * 過去の版の保存先のパスを取得
+ * 拡張子を.txtにしないのは、会話調テキストの一覧に過去の版が混ざらないようにするため
+ */
+export function getVersionPath(narratedDir: string, fileName: string, version: number): string {
+    return path.join(narratedDir, 'versions', `${path.basename(fileName, '.txt')}.v${version}.txt.bak`);
+}
+
+/**
+ * レビュー状態を読み込む（存在しない・壊れている場合は空の一覧）
+ */
+export function loadReviewManifest(narratedDir: string): ReviewManifest {
+    const manifestPath = getManifestPath(narratedDir);
+    if (!fs.existsSync(manifestPath)) {
+        return {version: 1, chapters: {}};
+    }
+
+    try {
+        const manifest: ReviewManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+        return {version: 1, chapters: manifest.chapters || {}};
+    } catch (error) {
+        console.warn(`レビュー状態の読み込みに失敗しました: ${manifestPath} (${error})`);
+        return {version: 1, chapters: {}};
+    }
+}
+
+/**
+ * レビュー状態を保存
+ */
+export function saveReviewManifest(narratedDir: string, manifest: ReviewManifest): void {
+    fs.writeFileSync(getManifestPath(narratedDir), JSON.stringify(manifest, null, 2), 'utf8');
+}
+
+/**
+ * 生成したナレーションを記録する
+ * 上書き前の内容と異なる場合は、上書き前の内容を過去の版として保存し、レビュー状態を確認待ちに戻す
+ * narrated_*.txtを書き込んだ後に呼び出すこと（書き込みに失敗した場合にレビュー状態だけが進まないようにする）
+ * @param previous 上書き前のnarrated_*.txtの内容（初めて生成した場合はnull）
+ */
+export function recordNarration(narratedFile: string, previous: string | null): NarrationUpdate {
+    const narratedDir = path.dirname(narratedFile);
+    const fileName = path.basename(narratedFile);
+    const manifest = loadReviewManifest(narratedDir);
+    const entry = manifest.chapters[fileName];
+    const now = new Date().toISOString();
+
+    if (previous === null) {
+        manifest.chapters[fileName] = {status: 'pending', version: 1, updatedAt: now};
+        saveReviewManifest(narratedDir, manifest);
+        return 'created';
+    }
+
+    const text = fs.readFileSync(narratedFile, 'utf8');
+    if (previous === text) {
+        // レビュー状態がない既存のナレーション（この機能より前に生成したもの）も確認待ちとして登録する
+        if (!entry) {
+            manifest.chapters[fileName] = {status: 'pending', version: 1, updatedAt: now};
+            saveReviewManifest(narratedDir, manifest);
+        }
+        return 'unchanged';
+    }
+
+    const version = entry?.version || 1;
+    const versionPath = getVersionPath(narratedDir, fileName, version);
+    fs.mkdirSync(path.dirname(versionPath), {recursive: true});
+    fs.writeFileSync(versionPath, previous, 'utf8');
+
+    manifest.chapters[fileName] = {status: 'pending', version: version + 1, updatedAt: now};
+    saveReviewManifest(narratedDir, manifest);
+    return 'updated';
+}
+
+/**
+ * 指定したチャプターのレビュー状態を変更
+ */
+export function setReviewStatus(narratedDir: string, fileNames: string[], status: ReviewStatus): void {
+    const manifest = loadReviewManifest(narratedDir);
+    const now = new Date().toISOString();
+
+    for (const fileName of fileNames) {
+        const entry = manifest.chapters[fileName];
+        manifest.chapters[fileName] = {status, version: entry?.version || 1, updatedAt: now};
+    }
+    saveReviewManifest(narratedDir, manifest);
+}
+
+/**
+ * チャプターのレビュー状態を取得（記録がない場合は確認待ち）
+ */
+export function getReviewStatus(manifest: ReviewManifest, narratedFile: string): ReviewStatus {
+    return manifest.chapters[path.basename(narratedFile)]?.status || 'pending';
+}
+
+/**
+ * チャプターの指定（"3,5,7"・"all"・ファイル名）に一致するナレーションを選ぶ
+ * 番号はnarrated_XX-タイトル.txtのXXと比較する
+ */
+export function selectNarratedFiles(narratedFiles: string[], selector: string): string[] {
+    if (selector === 'all') {
+        return narratedFiles;
+    }
+
+    const tokens = selector.split(',').map(token => token.trim()).filter(token => token.length > 0);
+    return narratedFiles.filter(file => {
+        const fileName = path.basename(file);
+        const match = fileName.match(/^narrated_(\d+)-/);
+        return tokens.some(token => token === fileName || (/^\d+$/.test(token) && match !== null && parseInt(match[1], 10) === parseInt(token, 10)));
+    });
+}
+
+/**
+ * 直前の版を読み込む（過去の版がない場合はnull）
+ */
+export function loadPreviousVersion(narratedFile: string, manifest: ReviewManifest): string | null {
+    const fileName = path.basename(narratedFile);
+    const entry = manifest.chapters[fileName];
+    if (!entry || entry.version <= 1) {
+        return null;
+    }
+
+    const versionPath = getVersionPath(path.dirname(narratedFile), fileName, entry.version - 1);
+    return fs.existsSync(versionPath) ? fs.readFileSync(versionPath, 'utf8') : null;
+}
+
+/**
+ * 行単位の差分を生成（変更のない部分は前後の数行を除いて省略する）
+ * @returns "- "（削除）・"+ "（追加）・"  "（変更なし）・"..."（省略）で始まる行の配列
+ */
+export function diffLines(before: string, after: string): string[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    // 最長共通部分列の長さの表（後ろから埋める）
+    const lcs: number[][] = Array.from({length: a.length + 1}, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const lines: {type: ' ' | '-' | '+'; text: string}[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            lines.push({type: ' ', text: a[i]});
+            i++;
+            j++;
+        } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+            lines.push({type: '-', text: a[i]});
+            i++;
+        } else {
+            lines.push({type: '+', text: b[j]});
+            j++;
+        }
+    }
+
+    // 変更行の前後だけを残す
+    const changed = lines.map(line => line.type !== ' ');
+    const visible = lines.map((_, index) => changed
+        .slice(Math.max(0, index - DIFF_CONTEXT_LINES), index + DIFF_CONTEXT_LINES + 1)
+        .some(Boolean));
+
+    const result: string[] = [];
+    lines.forEach((line, index) => {
+        if (visible[index]) {
+            result.push(`${line.type} ${line.text}`);
+        } else if (index === 0 || visible[index - 1]) {
+            result.push('...');
+        }
+    });
+    return result;
+}
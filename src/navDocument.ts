@@ -0,0 +1,131 @@
+import * as path from 'path';
+import * as cheerio from 'cheerio';
+import type {TocItem} from './epubReader';
+
+/**
+ * ナビゲーション文書のランドマーク（epub:type="landmarks"）の項目
+ * typeはbodymatter・backmatter・cover・tocなどのepub:typeの値
+ */
+export interface Landmark {
+    type: string;
+    title: string;
+    href: string;
+}
+
+/**
+ * ページリスト（epub:type="page-list"）の項目
+ */
+export interface PageTarget {
+    label: string;
+    href: string;
+}
+
+/**
+ * EPUB3のナビゲーション文書（nav.xhtml）の内容
+ */
+export interface NavDocument {
+    toc: TocItem[];
+    landmarks: Landmark[];
+    pageList: PageTarget[];
+}
+
+/**
+ * ナビゲーション文書からの相対パスを、EPUB内のパス（マニフェストのhrefと同じ形式）に変換
+ * フラグメントはそのまま残す。外部へのリンクの場合はnull
+ */
+export function resolveNavHref(navPath: string, href: string): string | null {
+    if (!href || /^[a-z][a-z0-9+.-]*:/i.test(href)) {
+        return null;
+    }
+
+    const [filePart, ...fragmentParts] = href.split('#');
+    const fragment = fragmentParts.length > 0 ? `#${fragmentParts.join('#')}` : '';
+    if (!filePart) {
+        // 同じ文書内のアンカーはナビゲーション文書自体を指す
+        return `${navPath}${fragment}`;
+    }
+
+    const resolved = path.posix.normalize(path.posix.join(path.posix.dirname(navPath), filePart));
+    return `${resolved.replace(/^\.\//, '')}${fragment}`;
+}
+
+/**
+ * 要素の空白をまとめたテキストを取得
+ */
+function textOf($el: cheerio.Cheerio<any>): string {
+    return $el.text().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * 指定したepub:typeを持つnav要素を探す
+ */
+function findNav($: cheerio.CheerioAPI, type: string): cheerio.Cheerio<any> {
+    return $('nav').filter((_, el) => ($(el).attr('epub:type') || '').split(/\s+/).includes(type)).first();
+}
+
+/**
+ * EPUB3のナビゲーション文書を解析する
+ * @param xhtml ナビゲーション文書の内容
+ * @param navPath EPUB内でのナビゲーション文書のパス（相対リンクの解決に使う）
+ */
+export function parseNavDocument(xhtml: string, navPath: string): NavDocument {
+    const $ = cheerio.load(xhtml, {xmlMode: true});
+    let order = 1;
+
+    // 目次の入れ子のリストを再帰的にたどる
+    const parseList = ($list: cheerio.Cheerio<any>, level: number): TocItem[] => {
+        const items: TocItem[] = [];
+        $list.children('li').each((_, li) => {
+            const $li = $(li);
+            const $link = $li.children('a').first();
+            const href = resolveNavHref(navPath, $link.attr('href') || '');
+            const $childList = $li.children('ol, ul').first();
+
+            // リンクのない見出し（spanのみ）は項目にせず、子項目を同じ階層に並べる
+            if (!href) {
+                if ($childList.length > 0) {
+                    items.push(...parseList($childList, level));
+                }
+                return;
+            }
+
+            const item: TocItem = {
+                id: '',
+                title: textOf($link),
+                level,
+                order: order++,
+                href,
+                children: []
+            };
+            items.push(item);
+            if ($childList.length > 0) {
+                item.children = parseList($childList, level + 1);
+            }
+        });
+        return items;
+    };
+
+    const $toc = findNav($, 'toc');
+    const toc = $toc.length > 0 ? parseList($toc.children('ol, ul').first(), 0) : [];
+
+    const landmarks: Landmark[] = [];
+    findNav($, 'landmarks').find('a').each((_, a) => {
+        const $a = $(a);
+        const href = resolveNavHref(navPath, $a.attr('href') || '');
+        const type = ($a.attr('epub:type') || '').split(/\s+/).filter(Boolean).pop();
+        if (href && type) {
+            landmarks.push({type, title: textOf($a), href});
+        }
+    });
+
+    const pageList: PageTarget[] = [];
+    findNav($, 'page-list').find('a').each((_, a) => {
+        const $a = $(a);
+        const href = resolveNavHref(navPath, $a.attr('href') || '');
+        if (href) {
+            pageList.push({label: textOf($a), href});
+        }
+    });
+
+    return {toc, landmarks, pageList};
+}
@@ -0,0 +1,200 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {buildChapterContextPrompt, ChapterContext} from './bookContext';
+import {buildGlossaryPrompt} from './glossary';
+import {NarrationLanguage} from './language';
+
+/**
+ * ナレーションのペルソナ（口調や想定リスナーの設定）
+ */
+export interface Persona {
+    name: string;
+    description: string;
+    tone: string;            // 口調の指示
+    politenessRule: string;  // 敬語に関する指示
+    firstPerson: string;     // 一人称
+    audienceLevel: string;   // 想定リスナー
+    targetLength: string;    // 分量の指示
+    forbidKeigo: boolean;    // 品質チェックで「です・ます」調を違反とするか
+    forbiddenPronouns: string[];  // 品質チェックで違反とする一人称
+}
+
+// 既定の分量の指示
+const DEFAULT_TARGET_LENGTH = `※短くまとめすぎず、話し言葉として自然なボリュームになるようにしてください。
+※内容の厚みや深みを持たせつつ、聞き手が飽きずに聞ける程度の長さを意識してください。
+※例え話や補足を使ってわかりやすく説明しながら、同じ内容を繰り返さず、スッキリ伝えてください。`;
+
+/**
+ * 組み込みのペルソナ
+ */
+export const BUILT_IN_PERSONAS: Record<string, Persona> = {
+    casual: {
+        name: 'casual',
+        description: '友達に話すようなフランクな口調（既定）',
+        tone: 'フランクで親しみやすい口調にしてください（例：「〜なんだよね」「って話」など）',
+        politenessRule: '**絶対に敬語は使わないでください**（「〜です」「〜ます」「〜してください」は禁止）',
+        firstPerson: '僕',
+        audienceLevel: '一般のエンジニア',
+        targetLength: DEFAULT_TARGET_LENGTH,
+        forbidKeigo: true,
+        forbiddenPronouns: ['私', '僕たち', '俺']
+    },
+    lecture: {
+        name: 'lecture',
+        description: '研修・オンボーディング向けの丁寧な講義調',
+        tone: '落ち着いた講義調で、順を追って丁寧に解説してください（例：「〜について見ていきましょう」「〜というわけです」）',
+        politenessRule: '**「です・ます」調で統一してください**（くだけた言い回しは使わない）',
+        firstPerson: '私',
+        audienceLevel: '新しくチームに加わったエンジニア',
+        targetLength: DEFAULT_TARGET_LENGTH,
+        forbidKeigo: false,
+        forbiddenPronouns: ['僕', '俺']
+    },
+    interview: {
+        name: 'interview',
+        description: '聞き手の疑問に答えていくインタビュー風の口調',
+        tone: 'インタビュー番組のように、聞き手が抱きそうな疑問を投げかけてから答える形で進めてください（例：「〜ってどういうこと？って思うよね」「実はここがポイントで〜」）',
+        politenessRule: '敬語は使わず、話しかけるような口調にしてください（「〜です」「〜ます」は使わない）',
+        firstPerson: '僕',
+        audienceLevel: '一般のエンジニア',
+        targetLength: DEFAULT_TARGET_LENGTH,
+        forbidKeigo: true,
+        forbiddenPronouns: ['私', '俺']
+    }
+};
+
+// 英語でナレーションする場合の既定の分量の指示
+const DEFAULT_TARGET_LENGTH_EN = `- Do not over-condense; aim for a volume that feels natural as spoken content.
+- Give the content depth while keeping it short enough that listeners stay engaged.
+- Use analogies and asides to make things clear, without repeating the same point.`;
+
+/**
+ * 英語でナレーションする場合の組み込みペルソナ（名前は日本語のペルソナと共通）
+ */
+export const ENGLISH_PERSONAS: Record<string, Persona> = {
+    casual: {
+        name: 'casual',
+        description: 'Friendly, conversational tone',
+        tone: 'Use a friendly, conversational tone, as if explaining to a colleague over coffee',
+        politenessRule: 'Avoid stiff or formal phrasing; contractions are welcome',
+        firstPerson: 'I',
+        audienceLevel: 'working software engineers',
+        targetLength: DEFAULT_TARGET_LENGTH_EN,
+        forbidKeigo: false,
+        forbiddenPronouns: []
+    },
+    lecture: {
+        name: 'lecture',
+        description: 'Calm, structured lecture style for training and onboarding',
+        tone: 'Use a calm lecture style that walks through the material step by step',
+        politenessRule: 'Keep the register polite and measured; avoid slang',
+        firstPerson: 'I',
+        audienceLevel: 'engineers who have just joined the team',
+        targetLength: DEFAULT_TARGET_LENGTH_EN,
+        forbidKeigo: false,
+        forbiddenPronouns: []
+    },
+    interview: {
+        name: 'interview',
+        description: 'Interview style that raises and answers listener questions',
+        tone: 'Like an interview show, raise the questions a listener would likely have and then answer them',
+        politenessRule: 'Speak directly to the listener in a relaxed, natural way',
+        firstPerson: 'I',
+        audienceLevel: 'working software engineers',
+        targetLength: DEFAULT_TARGET_LENGTH_EN,
+        forbidKeigo: false,
+        forbiddenPronouns: []
+    }
+};
+
+// 組み込みテンプレートの保存先（src/とdist/のどちらから実行しても同じ場所を指す）
+const PROMPTS_DIR = path.resolve(__dirname, '..', 'prompts');
+
+/**
+ * ペルソナ名からペルソナを取得
+ * @param language ナレーションの言語（英語の場合は英語用のペルソナ）
+ */
+export function getPersona(name: string, language: NarrationLanguage = 'ja'): Persona {
+    const persona = language === 'en' ? ENGLISH_PERSONAS[name] : BUILT_IN_PERSONAS[name];
+    if (!persona) {
+        throw new Error(`未知のペルソナです: ${name}（利用可能: ${Object.keys(BUILT_IN_PERSONAS).join(', ')}）`);
+    }
+    return persona;
+}
+
+/**
+ * 組み込みテンプレート名を取得（英語の場合は narration.en のように言語を付ける）
+ */
+export function getBuiltInTemplateName(mode: 'monologue' | 'dialogue', language: NarrationLanguage): string {
+    const name = mode === 'dialogue' ? 'dialogue' : 'narration';
+    return language === 'ja' ? name : `${name}.${language}`;
+}
+
+/**
+ * テンプレートファイルを読み込む
+ * @param templatePath 独自テンプレートのパス（未指定の場合は組み込みテンプレート）
+ * @param builtInName 組み込みテンプレート名（narration / dialogue / narration.en / dialogue.en）
+ */
+export function loadPromptTemplate(templatePath?: string, builtInName: string = 'narration'): string {
+    const resolvedPath = templatePath || path.join(PROMPTS_DIR, `${builtInName}.md`);
+    if (!fs.existsSync(resolvedPath)) {
+        throw new Error(`プロンプトテンプレートが見つかりません: ${resolvedPath}`);
+    }
+    return fs.readFileSync(resolvedPath, 'utf8');
+}
+
+/**
+ * テンプレート中の{{変数名}}を置換する
+ * 未定義の変数は空文字にし、空行が続かないように整える
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+    return template
+        .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => variables[name] ?? '')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/**
+ * ナレーション用システムプロンプトのテンプレート変数を組み立てる
+ * @param persona 使用するペルソナ
+ * @param context 本の中でのチャプターの位置づけ
+ * @param chunkIndex 分割したテキストの何番目か（0始まり）
+ * @param totalChunks 分割数
+ * @param targetLength 分量の指示（未指定の場合はペルソナの指示）
+ * @param language ナレーションの言語（各セクションを出力言語で書く）
+ */
+export function buildNarrationVariables(
+    persona: Persona,
+    context: ChapterContext | undefined,
+    chunkIndex: number = 0,
+    totalChunks: number = 1,
+    targetLength?: string,
+    language: NarrationLanguage = 'ja'
+): Record<string, string> {
+    const en = language === 'en';
+    const continuationNote = chunkIndex === 0 ? '' : en ? `### Important:
+- This is part ${chunkIndex + 1} of a text split into ${totalChunks} parts
+- Continue naturally from where the previous part left off
+- It is fine to refer back to what the previous part explained (e.g. "as we just saw")
+- Add a short transition where needed so the part does not start abruptly` : `### 重要な注意事項：
+- これは${totalChunks}個に分割されたテキストの第${chunkIndex + 1}部分です
+- 前の部分からの話の続きとして、自然に繋がるようにしてください
+- 前の部分で説明した内容は「さっき話した〜」のように参照してもOKです
+- 唐突に話が始まらないよう、必要に応じて繋ぎの言葉を入れてください`;
+    const chapterPosition = !context ? ''
+        : en ? `chapter ${context.index + 1} of ${context.total}` : `全${context.total}章中の第${context.index + 1}章`;
+
+    return {
+        tone: persona.tone,
+        politenessRule: persona.politenessRule,
+        firstPerson: persona.firstPerson,
+        audienceLevel: persona.audienceLevel,
+        targetLength: targetLength || persona.targetLength,
+        bookTitle: context?.book.title || '',
+        chapterTitle: context?.title || '',
+        chapterPosition,
+        chapterContext: context ? buildChapterContextPrompt(context, language) : '',
+        glossary: context?.glossary ? buildGlossaryPrompt(context.glossary, language) : '',
+        continuationNote
+    };
+}
@@ -0,0 +1,55 @@
+import {sleep} from './retryPolicy';
+
+/**
+ * 1分あたりのトークン数を制限するレートリミッター
+ * 直近60秒間に送信したトークン数の合計が上限を超えないようにリクエストを待機させる
+ */
+export class TokenRateLimiter {
+    private tokensPerMinute: number;
+    private history: {time: number; tokens: number}[] = [];
+    private queue: Promise<void> = Promise.resolve();
+
+    /**
+     * @param tokensPerMinute 1分あたりの上限トークン数（0以下で無制限）
+     */
+    constructor(tokensPerMinute: number) {
+        this.tokensPerMinute = tokensPerMinute;
+    }
+
+    /**
+     * 指定トークン数を送信できるまで待機し、送信枠を確保する
+     */
+    async acquire(tokens: number): Promise<void> {
+        if (this.tokensPerMinute <= 0) {
+            return;
+        }
+
+        // 待機中のリクエスト同士が追い越さないよう、順番に枠を確保する
+        const previous = this.queue;
+        let release!: () => void;
+        this.queue = new Promise(resolve => release = resolve);
+
+        try {
+            await previous;
+
+            while (true) {
+                const now = Date.now();
+                this.history = this.history.filter(entry => now - entry.time < 60000);
+                const used = this.history.reduce((sum, entry) => sum + entry.tokens, 0);
+
+                // 1リクエストで上限を超える場合も、直近の送信がなければ通す
+                if (used + tokens <= this.tokensPerMinute || this.history.length === 0) {
+                    this.history.push({time: now, tokens});
+                    return;
+                }
+
+                // 最も古い送信が60秒の枠から外れるまで待つ
+                const waitMs = 60000 - (now - this.history[0].time) + 10;
+                console.log(`トークン数の上限 (${this.tokensPerMinute}/分) に達したため、${(waitMs / 1000).toFixed(1)}秒待機します`);
+                await sleep(waitMs);
+            }
+        } finally {
+            release();
+        }
+    }
+}
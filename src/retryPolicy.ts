@@ -0,0 +1,158 @@
+import axios from 'axios';
+import chalk from 'chalk';
+
+/**
+ * リトライ設定の型定義
+ */
+export interface RetryPolicy {
+    maxAttempts: number;   // 初回を含む最大試行回数
+    baseDelayMs: number;   // 指数バックオフの基準待ち時間
+    maxDelayMs: number;    // 待ち時間の上限
+}
+
+// リトライで回復が見込めるHTTPステータス
+const RETRYABLE_STATUSES = [408, 409, 425, 429, 500, 502, 503, 504, 529];
+
+// 以降のリクエストもすべて失敗するため、処理全体を中断すべきHTTPステータス
+const FATAL_STATUSES = [401, 402, 403, 404];
+
+// モデル指定の誤りを示すエラーコード（400で返されても致命的として扱う）
+const FATAL_ERROR_CODES = ['model_not_found', 'invalid_model', 'invalid_api_key', 'not_found_error', 'authentication_error', 'permission_error'];
+
+/**
+ * LLM APIリクエストのエラー
+ * retryable: 同じリクエストを再送すれば成功する可能性がある
+ * fatal: 設定の誤りなどで、残りのチャプターも処理できない
+ */
+export class LLMRequestError extends Error {
+    readonly status?: number;
+    readonly retryable: boolean;
+    readonly fatal: boolean;
+    readonly retryAfterMs?: number;
+
+    constructor(message: string, options: {status?: number; retryable: boolean; fatal: boolean; retryAfterMs?: number}) {
+        super(message);
+        this.name = 'LLMRequestError';
+        this.status = options.status;
+        this.retryable = options.retryable;
+        this.fatal = options.fatal;
+        this.retryAfterMs = options.retryAfterMs;
+    }
+}
+
+/**
+ * Retry-After系ヘッダーから待ち時間（ミリ秒）を取得
+ */
+function parseRetryAfter(headers: any): number | undefined {
+    if (!headers) return undefined;
+
+    // OpenAIはミリ秒単位のヘッダーも返す
+    const retryAfterMs = headers['retry-after-ms'];
+    if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+        return Number(retryAfterMs);
+    }
+
+    const retryAfter = headers['retry-after'];
+    if (!retryAfter) return undefined;
+
+    // 秒数形式
+    if (!isNaN(Number(retryAfter))) {
+        return Number(retryAfter) * 1000;
+    }
+
+    // HTTP日付形式
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+
+    return undefined;
+}
+
+/**
+ * 任意のエラーをLLMRequestErrorに分類
+ */
+export function classifyError(error: unknown): LLMRequestError {
+    if (error instanceof LLMRequestError) {
+        return error;
+    }
+
+    if (axios.isAxiosError(error)) {
+        // レスポンスがない場合はネットワークエラー（タイムアウト・接続断など）
+        if (!error.response) {
+            return new LLMRequestError(`LLM APIに接続できませんでした (${error.code || error.message})`, {
+                retryable: true,
+                fatal: false
+            });
+        }
+
+        const status = error.response.status;
+        const data = error.response.data;
+        const errorCode = data?.error?.code || data?.error?.type;
+        const detail = data?.error?.message || error.message;
+        const message = `LLM APIリクエストが失敗しました (HTTP ${status}): ${detail}`;
+
+        if (FATAL_STATUSES.includes(status) || (errorCode && FATAL_ERROR_CODES.includes(errorCode))) {
+            return new LLMRequestError(message, {status, retryable: false, fatal: true});
+        }
+
+        // 429でもクォータ切れはリトライしても回復しない
+        if (status === 429 && errorCode === 'insufficient_quota') {
+            return new LLMRequestError(message, {status, retryable: false, fatal: true});
+        }
+
+        return new LLMRequestError(message, {
+            status,
+            retryable: RETRYABLE_STATUSES.includes(status),
+            fatal: false,
+            retryAfterMs: parseRetryAfter(error.response.headers)
+        });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    return new LLMRequestError(message, {retryable: false, fatal: false});
+}
+
+/**
+ * 試行回数に応じた待ち時間を計算（指数バックオフ＋ジッター）
+ */
+export function computeBackoffDelay(attempt: number, policy: RetryPolicy, retryAfterMs?: number): number {
+    // サーバーから待ち時間が指定されていればそれに従う
+    if (retryAfterMs !== undefined) {
+        return retryAfterMs;
+    }
+
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+    // 半分を固定、残り半分をランダムにして同時リトライの集中を避ける
+    return Math.round(exponential / 2 + Math.random() * exponential / 2);
+}
+
+/**
+ * 指定ミリ秒待機
+ */
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * リトライ可能なエラーの場合にポリシーに従って再試行する
+ */
+export async function withRetry<T>(fn: () => Promise<T>, policy: RetryPolicy, label: string): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await fn();
+        } catch (error) {
+            const classified = classifyError(error);
+
+            if (!classified.retryable || attempt >= policy.maxAttempts) {
+                throw classified;
+            }
+
+            const delay = computeBackoffDelay(attempt, policy, classified.retryAfterMs);
+            console.warn(chalk.yellow(
+                `${label}: ${classified.message} (${attempt}/${policy.maxAttempts}回目) ${(delay / 1000).toFixed(1)}秒後に再試行します`
+            ));
+            await sleep(delay);
+        }
+    }
+}
@@ -0,0 +1,197 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {NarrationLanguage} from './language';
+
+/**
+ * 振り返りクイズの生成方法
+ * off: 生成しない、chapter: 各チャプターの後に振り返りトラックを入れる、book: 本ごとに1つの振り返りエピソードにする
+ */
+export type ReviewMode = 'off' | 'chapter' | 'book';
+
+export const REVIEW_MODES: ReviewMode[] = ['off', 'chapter', 'book'];
+
+/**
+ * 振り返りクイズの1問
+ */
+export interface ReviewQuestion {
+    question: string;
+    answer: string;   // 読み上げる解答（解説を含む）
+}
+
+/**
+ * チャプターの振り返りクイズ
+ */
+export interface ReviewQuiz {
+    version: 1;
+    chapter: string;   // 元になったナレーションのファイル名
+    title: string;
+    questions: ReviewQuestion[];
+}
+
+// 1チャプターあたりの問題数の範囲
+export const MIN_REVIEW_QUESTIONS = 3;
+export const MAX_REVIEW_QUESTIONS = 5;
+
+// 問題を読み上げてから解答までの考える時間（ミリ秒）
+const THINKING_PAUSE_MS = 3000;
+
+// 振り返りファイルの接頭辞（音声ファイル名からチャプターと区別するため）
+const REVIEW_FILE_PREFIX = 'review_';
+
+/**
+ * 振り返りクイズを作るためのシステムプロンプトを生成
+ */
+export function buildReviewQuizPrompt(questionCount: number, language: NarrationLanguage): string {
+    const outputLanguage = language === 'en' ? '英語' : '日本語';
+    return `あなたは技術書の勉強会で使う振り返りクイズを作る講師です。
+
+入力テキストは、技術書の1つの章を音声用に解説したナレーションです。
+この章の内容の理解を確かめる問題を${questionCount}問作ってください。
+
+- 用語の暗記ではなく、考え方や使いどころを問う問題にしてください
+- 問題は音声で聞いて理解できる短さにし、選択肢は使わないでください
+- 解答は、正解と簡単な理由を2〜3文の話し言葉で説明してください
+- ソースコードや記号、URLは含めないでください
+- 問題と解答は${outputLanguage}で書いてください
+
+出力は次の形式のJSON配列だけにしてください（説明文やコードブロックの記号は付けない）。
+[{"question": "問題文", "answer": "解答と理由"}]`;
+}
+
+/**
+ * LLMの出力から問題の一覧を取り出す
+ * コードブロックや前置きが付いていても、最初のJSON配列を読み取る
+ */
+export function parseReviewQuestions(content: string): ReviewQuestion[] {
+    const start = content.indexOf('[');
+    const end = content.lastIndexOf(']');
+    if (start === -1 || end <= start) {
+        return [];
+    }
+
+    try {
+        const items = JSON.parse(content.slice(start, end + 1));
+        if (!Array.isArray(items)) return [];
+
+        return items
+            .filter((item: any) => typeof item?.question === 'string' && typeof item?.answer === 'string')
+            .map((item: any) => ({question: item.question.trim(), answer: item.answer.trim()}))
+            .filter(item => item.question.length > 0 && item.answer.length > 0)
+            .slice(0, MAX_REVIEW_QUESTIONS);
+    } catch (error) {
+        return [];
+    }
+}
+
+/**
+ * ナレーションのファイル名からチャプタータイトルを取得
+ */
+export function getReviewTitle(narratedFile: string): string {
+    const baseName = path.basename(narratedFile, '.txt').replace(/^narrated_/, '');
+    const match = baseName.match(/^\d+-(.+)$/);
+    return match ? match[1] : baseName;
+}
+
+/**
+ * ナレーションのファイルに対応する振り返りファイルのパスを取得
+ * @returns 読み上げ用テキスト（.txt）と問題データ（.quiz.json）のパス
+ */
+export function getReviewPaths(narratedFile: string, reviewDir: string): {textPath: string; quizPath: string} {
+    const baseName = path.basename(narratedFile, '.txt').replace(/^narrated_/, '');
+    return {
+        textPath: path.join(reviewDir, `${REVIEW_FILE_PREFIX}${baseName}.txt`),
+        quizPath: path.join(reviewDir, `${REVIEW_FILE_PREFIX}${baseName}.quiz.json`)
+    };
+}
+
+/**
+ * ファイル名が振り返りファイルのものか判定
+ */
+export function isReviewFile(filePath: string): boolean {
+    return path.basename(filePath).startsWith(REVIEW_FILE_PREFIX);
+}
+
+/**
+ * 振り返りトラックのチャプタータイトルを生成
+ */
+export function getReviewTrackTitle(title: string, language: NarrationLanguage): string {
+    return language === 'en' ? `Review: ${title}` : `振り返り：${title}`;
+}
+
+/**
+ * チャプターのファイルの並びに、対応する振り返りファイルを各チャプターの直後に挿入する
+ * テキスト（narrated_XX.txt と review_XX.txt）と音声（.mp3）のどちらにも使える
+ */
+export function interleaveReviewFiles(chapterFiles: string[], reviewFiles: string[]): string[] {
+    const chapterKey = (file: string) => path.basename(file, path.extname(file)).replace(/^narrated_/, '');
+    const reviewKey = (file: string) => path.basename(file, path.extname(file)).replace(new RegExp(`^${REVIEW_FILE_PREFIX}`), '');
+
+    const remaining = [...reviewFiles];
+    const result: string[] = [];
+    for (const chapterFile of chapterFiles) {
+        result.push(chapterFile);
+        const index = remaining.findIndex(reviewFile => reviewKey(reviewFile) === chapterKey(chapterFile));
+        if (index !== -1) {
+            result.push(...remaining.splice(index, 1));
+        }
+    }
+
+    // 対応するチャプターが見つからない振り返りは最後に回す
+    return [...result, ...remaining];
+}
+
+/**
+ * クイズを読み上げ用のテキストに変換
+ * 問題の後に考える時間として無音を入れる
+ */
+export function quizToSpeechText(quiz: ReviewQuiz, language: NarrationLanguage): string {
+    const pause = `[[slnc ${THINKING_PAUSE_MS}]]`;
+    const intro = language === 'en'
+        ? `Review quiz for "${quiz.title}". There are ${quiz.questions.length} questions.`
+        : `「${quiz.title}」の振り返りクイズ。全部で${quiz.questions.length}問。`;
+
+    const questions = quiz.questions.map((item, index) => language === 'en'
+        ? `Question ${index + 1}. ${item.question}\n${pause}\nAnswer. ${item.answer}`
+        : `第${index + 1}問。${item.question}\n${pause}\n答え。${item.answer}`);
+
+    return [intro, ...questions].join('\n\n');
+}
+
+/**
+ * 本全体の振り返りエピソード用のテキストを生成
+ */
+export function buildBookReviewText(bookTitle: string, quizzes: ReviewQuiz[], language: NarrationLanguage): string {
+    const intro = language === 'en'
+        ? `This is the review episode for "${bookTitle}". Let's go back over each chapter with a few questions.`
+        : `「${bookTitle}」の振り返りエピソード。章ごとにいくつか問題を出していくので、考えながら聞いてみて。`;
+
+    return [intro, ...quizzes.map(quiz => quizToSpeechText(quiz, language))].join('\n\n[[slnc 1000]]\n\n');
+}
+
+/**
+ * クイズを読み上げ用テキストと問題データの2つのファイルに保存
+ */
+export function saveReviewQuiz(quiz: ReviewQuiz, textPath: string, quizPath: string, language: NarrationLanguage): void {
+    fs.writeFileSync(quizPath, JSON.stringify(quiz, null, 2), 'utf8');
+    fs.writeFileSync(textPath, quizToSpeechText(quiz, language), 'utf8');
+}
+
+/**
+ * 問題データのファイルを読み込む（存在しない・壊れている場合はnull）
+ */
+export function loadReviewQuiz(quizPath: string): ReviewQuiz | null {
+    if (!fs.existsSync(quizPath)) {
+        return null;
+    }
+
+    try {
+        const quiz: ReviewQuiz = JSON.parse(fs.readFileSync(quizPath, 'utf8'));
+        if (!Array.isArray(quiz.questions) || quiz.questions.length === 0) {
+            throw new Error('問題がありません');
+        }
+        return quiz;
+    } catch (error) {
+        console.warn(`振り返りクイズの読み込みに失敗しました: ${quizPath} (${error})`);
+        return null;
+    }
+}
@@ -1,6 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import chalk from 'chalk';
+import {config} from './config';
+import {ChapterInfo} from './speechSynthesizer';
 
 interface PodcastEpisode {
     title: string;
@@ -10,6 +12,7 @@ interface PodcastEpisode {
     duration?: string;
     fileSize?: number;
     chapterNumber?: number;
+    keywords?: string[];
 }
 
 interface PodcastInfo {
@@ -23,6 +26,9 @@ interface PodcastInfo {
     episodes: PodcastEpisode[];
 }
 
+// エピソードに付けるキーワードの最大数
+const MAX_EPISODE_KEYWORDS = 12;
+
 /**
  * RSS 2.0フィード生成クラス
  */
@@ -72,17 +78,52 @@ export class RSSGenerator {
       <enclosure url="${episode.audioUrl}" type="audio/mpeg" ${episode.fileSize ? `length="${episode.fileSize}"` : 'length="1"'}/>
       <pubDate>${episode.pubDate}</pubDate>
       <itunes:duration>${episode.duration || '00:00:00'}</itunes:duration>
+      ${episode.keywords && episode.keywords.length > 0 ? `<itunes:keywords>${this.escapeXml(episode.keywords.join(','))}</itunes:keywords>` : ''}
       <guid>${episode.audioUrl}</guid>
     </item>`;
     }
 
+    /**
+     * XMLの特殊文字をエスケープ
+     */
+    private escapeXml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+
+    /**
+     * エピソードの説明文を生成
+     * 番組ノートの要約があるチャプターは、開始時間とタイトル・要約を並べる
+     */
+    private buildEpisodeDescription(bookName: string, chapters: ChapterInfo[] = []): string {
+        const description = `技術書「${bookName}」の完全版。全章を通して聞くことができます。`;
+        if (!chapters.some(chapter => chapter.summary)) {
+            return description;
+        }
+
+        const chapterLines = chapters.map(chapter => {
+            const startTime = new Date(chapter.startTime * 1000).toISOString().substr(11, 8);
+            return chapter.summary
+                ? `${startTime} ${chapter.title}\n${chapter.summary}`
+                : `${startTime} ${chapter.title}`;
+        });
+
+        // CDATAの終端と衝突しないようにする
+        return `${description}\n\n${chapterLines.join('\n\n')}`.replace(/]]>/g, ']]&gt;');
+    }
+
     /**
      * 完全版ファイルからエピソード情報を生成（本単位）
+     * @param chapters チャプター情報（番組ノートの要約・キーワードを説明文とキーワードに使う）
      */
     async createEpisodeFromCompleteFile(
         completeFilePath: string, 
         bookName: string,
-        duration?: string
+        duration?: string,
+        chapters: ChapterInfo[] = []
     ): Promise<PodcastEpisode | null> {
         try {
             if (!fs.existsSync(completeFilePath)) {
@@ -95,11 +136,12 @@ export class RSSGenerator {
             
             return {
                 title: bookName,
-                description: `技術書「${bookName}」の完全版。全章を通して聞くことができます。`,
+                description: this.buildEpisodeDescription(bookName, chapters),
                 audioUrl: `${this.baseUrl}/audio/${fileName}`,
                 pubDate: new Date().toUTCString(),
                 fileSize: stats.size,
-                duration: duration || await this.getAudioDuration(completeFilePath)
+                duration: duration || await this.getAudioDuration(completeFilePath),
+                keywords: Array.from(new Set(chapters.flatMap(chapter => chapter.keywords || []))).slice(0, MAX_EPISODE_KEYWORDS)
             };
         } catch (error) {
             console.error(chalk.red(`エピソード情報の生成エラー: ${error}`));
@@ -158,11 +200,12 @@ export class RSSGenerator {
             category?: string;
             imageUrl?: string;
             duration?: string;
+            chapters?: ChapterInfo[];
         } = {}
     ): Promise<string> {
         try {
             // エピソード情報を生成（1エピソードのみ）
-            const episode = await this.createEpisodeFromCompleteFile(completeFilePath, bookName, options.duration);
+            const episode = await this.createEpisodeFromCompleteFile(completeFilePath, bookName, options.duration, options.chapters);
 
             if (!episode) {
                 throw new Error('エピソード情報の生成に失敗しました');
@@ -174,7 +217,7 @@ export class RSSGenerator {
                 description: '技術書をポッドキャスト形式で配信。通勤・通学のお供にどうぞ！',
                 author: options.author || 'TechTalkCast',
                 category: options.category || 'Technology',
-                language: 'ja',
+                language: config.language.target,
                 link: this.baseUrl,
                 imageUrl: options.imageUrl,
                 episodes: [episode]
@@ -219,6 +262,7 @@ export async function generatePodcastRSS(
         category?: string;
         imageUrl?: string;
         duration?: string;
+        chapters?: ChapterInfo[];   // 番組ノートの要約・キーワードをエピソードの説明に使う
     }
 ): Promise<string> {
     if (!fs.existsSync(completeFilePath)) {
@@ -4,10 +4,23 @@ import { exec } from 'child_process';
 import util from 'util';
 import { config } from './config';
 import { textFormatter } from './textFormatter';
+import { loadSavedChapterDocument } from './chapterDocument';
+import { DialogueScript, getScriptPath, loadDialogueScript } from './dialogueScript';
+import { GlossaryEntry } from './glossary';
+import { getNotesPath, loadChapterNotes } from './chapterNotes';
+import { getReviewTrackTitle, isReviewFile } from './reviewQuiz';
+import { estimateListeningMinutes } from './narrationLength';
+import { concatWavFiles, readWavDuration, writeToneWav } from './wavFile';
 
 // execをPromiseでラップ
 const execPromise = util.promisify(exec);
 
+/**
+ * 音声合成エンジン
+ * say: macOSのsayコマンドとffmpeg、mock: 読み上げ時間に比例した長さのWAVファイルを書き出す（外部コマンド不要）
+ */
+export type SpeechEngine = 'say' | 'mock';
+
 /**
  * チャプター情報の型定義
  */
@@ -16,6 +29,8 @@ export interface ChapterInfo {
     fileName: string;
     startTime: number;  // 秒単位
     duration: number;   // 秒単位
+    summary?: string;     // 番組ノートの要約
+    keywords?: string[];  // 番組ノートのキーワード
 }
 
 /**
@@ -25,10 +40,15 @@ export interface ChapterInfo {
 export class SpeechSynthesizer {
     private voice: string;
     private rate: number;
+    private readings: GlossaryEntry[];
 
-    constructor(voice?: string, rate?: number) {
+    /**
+     * @param readings 用語集の読み（読み上げ時に用語を置き換える）
+     */
+    constructor(voice?: string, rate?: number, readings: GlossaryEntry[] = []) {
         this.voice = voice || config.speech.voice;
         this.rate = rate || config.speech.rate;
+        this.readings = readings;
     }
 
     /**
@@ -60,12 +80,55 @@ export class SpeechSynthesizer {
             .replace(/(ねえ|あのね|さて|それから|ところで|話は変わるけど|他にも|最後に)/g, '[[slnc 500]]$1[[slnc 200]]');
     }
 
+    /**
+     * 整形済みのテキストを読み上げる時間（秒）を見積もる（[[slnc]]の無音を含む）
+     */
+    private estimateSpeechSeconds(formattedText: string): number {
+        const pauseMs = Array.from(formattedText.matchAll(/\[\[slnc (\d+)\]\]/g))
+            .reduce((sum, match) => sum + parseInt(match[1], 10), 0);
+        const spokenText = formattedText.replace(/\[\[slnc \d+\]\]/g, '');
+        return Math.max(1, estimateListeningMinutes(spokenText, this.rate, config.language.target) * 60 + pauseMs / 1000);
+    }
+
+    /**
+     * 読み上げるテキストをファイルから読み込む
+     * 抽出したチャプター（文書モデルがあるもの）はHTMLではなく文書モデルから整形したテキストを使う
+     */
+    private readText(file: string): string {
+        const document = loadSavedChapterDocument(file);
+        return document ? textFormatter.formatDocument(document) : fs.readFileSync(file, 'utf8');
+    }
+
+    /**
+     * モックの音声合成：読み上げ時間を見積もり、その長さのWAVファイルを書き出す
+     * 出力ファイルの拡張子（.mp3・.m4a）はそのままで、中身はWAV形式になる
+     * @param texts 読み上げるテキスト（対話の場合は発話ごと）
+     * @param gapSeconds テキスト間の無音（秒）
+     */
+    private writeMockAudio(texts: string[], outputPath: string, gapSeconds: number = 0): void {
+        const dir = path.dirname(outputPath);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, {recursive: true});
+        }
+
+        const seconds = texts
+            .map(text => this.estimateSpeechSeconds(this.addPauses(textFormatter.prepareForSpeech(text, this.readings, config.language.target))))
+            .reduce((sum, value) => sum + value, 0) + gapSeconds * Math.max(0, texts.length - 1);
+        writeToneWav(outputPath, seconds);
+        console.log(`音声ファイルを生成しました (モック, ${seconds.toFixed(1)}秒): ${outputPath}`);
+    }
+
     /**
      * テキストから音声ファイルを生成
      * @param text 読み上げるテキスト
      * @param outputPath 出力ファイルのパス (.mp3)
      */
     async synthesize(text: string, outputPath: string): Promise<void> {
+        if (config.speech.engine === 'mock') {
+            this.writeMockAudio([text], outputPath);
+            return;
+        }
+
         const tempTextFile = `${outputPath}.temp.txt`;
         const tempAiffFile = outputPath.replace(/\.(mp3|m4a)$/, '.temp.aiff');
         const outputFile = outputPath;
@@ -86,7 +149,7 @@ export class SpeechSynthesizer {
             }
 
             // 音声に適した形式にテキストを整形
-            let formattedText = textFormatter.prepareForSpeech(text);
+            let formattedText = textFormatter.prepareForSpeech(text, this.readings, config.language.target);
             
             // テキストに適切な間（ポーズ）を挿入
             formattedText = this.addPauses(formattedText);
@@ -120,11 +183,90 @@ export class SpeechSynthesizer {
         }
     }
 
+    /**
+     * 対話の台本から話者ごとに声を変えた音声ファイルを生成
+     * 各発話を個別に合成し、発話間に短い無音を挟んで結合する
+     * @param script 台本
+     * @param outputPath 出力ファイルのパス (.mp3)
+     */
+    async synthesizeDialogue(script: DialogueScript, outputPath: string): Promise<void> {
+        if (config.speech.engine === 'mock') {
+            this.writeMockAudio(script.turns.map(turn => turn.text), outputPath, config.speech.dialogueGapMs / 1000);
+            return;
+        }
+
+        const dir = path.dirname(outputPath);
+        const baseName = path.basename(outputPath).replace(/\.(mp3|m4a)$/, '');
+        const tempFiles: string[] = [];
+        const turnAiffFiles: string[] = [];
+
+        try {
+            if (!fs.existsSync(dir)) {
+                fs.mkdirSync(dir, {recursive: true});
+            }
+
+            console.log(`対話音声を合成中... (${path.basename(outputPath)}, ${script.turns.length}発話)`);
+
+            // 各発話を話者の声で合成
+            for (let i = 0; i < script.turns.length; i++) {
+                const turn = script.turns[i];
+                const voice = script.speakers[turn.speaker]?.voice || config.speech.dialogueVoices[turn.speaker];
+                const tempTextFile = path.join(dir, `${baseName}.turn${i}.temp.txt`);
+                const tempAiffFile = path.join(dir, `${baseName}.turn${i}.temp.aiff`);
+                tempFiles.push(tempTextFile, tempAiffFile);
+
+                const formattedText = this.addPauses(textFormatter.prepareForSpeech(turn.text, this.readings, config.language.target));
+                fs.writeFileSync(tempTextFile, formattedText, 'utf8');
+
+                await execPromise(`say -v "${voice}" -r ${this.rate} -f "${tempTextFile}" -o "${tempAiffFile}"`, { timeout: 300000 });
+                turnAiffFiles.push(tempAiffFile);
+            }
+
+            // 声によってサンプリングレートが異なるため、揃えてから無音を挟んで結合
+            const gapSeconds = config.speech.dialogueGapMs / 1000;
+            const inputs = turnAiffFiles.map(file => `-i "${file}"`).join(' ');
+            const filters = turnAiffFiles.map((_, i) => {
+                const pad = i < turnAiffFiles.length - 1 ? `,apad=pad_dur=${gapSeconds}` : '';
+                return `[${i}:a]aresample=44100,aformat=sample_fmts=s16:channel_layouts=mono${pad}[a${i}]`;
+            });
+            const concatInputs = turnAiffFiles.map((_, i) => `[a${i}]`).join('');
+            const filterComplex = `${filters.join(';')};${concatInputs}concat=n=${turnAiffFiles.length}:v=0:a=1[out]`;
+
+            // フィルター定義が長くなるためファイル経由で渡す
+            const filterFile = path.join(dir, `${baseName}.filter.temp.txt`);
+            tempFiles.push(filterFile);
+            fs.writeFileSync(filterFile, filterComplex, 'utf8');
+
+            await execPromise(
+                `ffmpeg -y ${inputs} -filter_complex_script "${filterFile}" -map "[out]" -codec:a libmp3lame -b:a 192k "${outputPath}"`,
+                { timeout: 300000, maxBuffer: 1024 * 1024 * 10 }
+            );
+
+            console.log(`音声ファイルを生成しました: ${outputPath}`);
+        } catch (error) {
+            console.error('対話音声の合成中にエラーが発生しました:', error);
+            throw new Error(`対話音声の合成に失敗しました: ${error}`);
+        } finally {
+            // 一時ファイルを削除
+            for (const file of tempFiles) {
+                if (fs.existsSync(file)) {
+                    fs.unlinkSync(file);
+                }
+            }
+        }
+    }
+
     /**
      * 音声ファイルの長さを取得（秒単位）
      */
     async getAudioDuration(filePath: string): Promise<number> {
         try {
+            // モックで書き出したWAVファイルはヘッダーから長さを計算（ffprobeのない環境でも動かすため）
+            const wavDuration = readWavDuration(filePath);
+            if (wavDuration !== null) {
+                return wavDuration;
+            }
+
             const command = `ffprobe -v error -show_entries format=duration -of default=noprint_wrappers=1:nokey=1 "${filePath}"`;
             const { stdout } = await execPromise(command);
             return parseFloat(stdout.trim());
@@ -165,28 +307,37 @@ export class SpeechSynthesizer {
 
             try {
                 // テキストを読み込む
-                const text = fs.readFileSync(inputFile, 'utf8');
+                const text = this.readText(inputFile);
 
                 console.log(`[${i + 1}/${inputFiles.length}] 音声合成中: ${path.basename(inputFile)}`);
 
-                // 音声合成を実行
-                await this.synthesize(text, outputFile);
+                // 台本ファイルがあれば話者ごとの声で合成、なければ1人の声で合成
+                const script = loadDialogueScript(getScriptPath(inputFile));
+                if (script) {
+                    await this.synthesizeDialogue(script, outputFile);
+                } else {
+                    await this.synthesize(text, outputFile);
+                }
                 outputFiles.push(outputFile);
 
                 // 音声ファイルの長さを取得
                 const duration = await this.getAudioDuration(outputFile);
 
-                // チャプターのタイトルを抽出（ファイル名から番号部分とnarrated_を除去）
-                const cleanFileName = fileName.replace(/^narrated_/, '');
+                // チャプターのタイトルを抽出（ファイル名から番号部分とnarrated_・review_を除去）
+                const cleanFileName = fileName.replace(/^(narrated_|review_)/, '');
                 const titleMatch = cleanFileName.match(/^\d+-(.+)$/);
-                const title = titleMatch ? titleMatch[1] : cleanFileName;
+                const chapterTitle = titleMatch ? titleMatch[1] : cleanFileName;
+                const title = isReviewFile(fileName) ? getReviewTrackTitle(chapterTitle, config.language.target) : chapterTitle;
 
-                // チャプター情報を記録
+                // チャプター情報を記録（番組ノートがあれば要約とキーワードも）
+                const notes = loadChapterNotes(getNotesPath(inputFile));
                 chapters.push({
                     title: title,
                     fileName: fileName,
                     startTime: currentStartTime,
-                    duration: duration
+                    duration: duration,
+                    summary: notes?.summary,
+                    keywords: notes?.keywords
                 });
 
                 // 次のチャプターの開始時間を計算
@@ -243,7 +394,7 @@ export class SpeechSynthesizer {
 
             try {
                 // テキストを読み込む
-                const text = fs.readFileSync(inputFile, 'utf8');
+                const text = this.readText(inputFile);
 
                 console.log(`[${i + 1}/${files.length}] 音声合成中: ${file}`);
 
@@ -291,6 +442,17 @@ export class SpeechSynthesizer {
      * @param chapters チャプター情報の配列（オプション）
      */
     async synthesizeCombined(inputFiles: string[], outputFile: string, chapters?: ChapterInfo[]): Promise<void> {
+        // 対話の台本がある場合（またはモックの場合）はテキストを1つの声で読み直さず、チャプターごとの音声を結合する
+        const canCombineChapters = chapters !== undefined && chapters.length > 0;
+        if (canCombineChapters && (config.speech.engine === 'mock' || inputFiles.some(file => fs.existsSync(getScriptPath(file))))) {
+            await this.combineChapterAudio(outputFile, chapters!);
+            return;
+        }
+        if (config.speech.engine === 'mock') {
+            this.writeMockAudio(inputFiles.filter(file => fs.existsSync(file)).map(file => this.readText(file)), outputFile, 1.0);
+            return;
+        }
+
         try {
             // 一時的に結合したテキストファイルを作成
             const tempTextFile = path.join(path.dirname(outputFile), 'combined_temp.txt');
@@ -299,13 +461,13 @@ export class SpeechSynthesizer {
             // 各ファイルのテキストを読み込んで結合
             for (const file of inputFiles) {
                 if (fs.existsSync(file)) {
-                    const text = fs.readFileSync(file, 'utf8');
+                    const text = this.readText(file);
                     combinedText += text + '\n\n[[slnc 1000]]\n\n'; // チャプター間に長めの間を挿入
                 }
             }
 
             // 結合したテキストを整形
-            let formattedText = textFormatter.prepareForSpeech(combinedText);
+            let formattedText = textFormatter.prepareForSpeech(combinedText, this.readings, config.language.target);
             
             // テキストに適切な間（ポーズ）を挿入
             formattedText = this.addPauses(formattedText);
@@ -321,19 +483,7 @@ export class SpeechSynthesizer {
                 
                 // チャプターメタデータファイルを作成
                 const metadataFile = path.join(path.dirname(outputFile), 'combined_metadata.txt');
-                let metadataContent = ';FFMETADATA1\n';
-                
-                chapters.forEach((chapter) => {
-                    const startMs = Math.floor(chapter.startTime * 1000);
-                    const endMs = Math.floor((chapter.startTime + chapter.duration) * 1000);
-                    metadataContent += `[CHAPTER]\n`;
-                    metadataContent += `TIMEBASE=1/1000\n`;
-                    metadataContent += `START=${startMs}\n`;
-                    metadataContent += `END=${endMs}\n`;
-                    metadataContent += `title=${chapter.title}\n\n`;
-                });
-                
-                fs.writeFileSync(metadataFile, metadataContent, 'utf8');
+                this.writeChapterMetadata(chapters, metadataFile);
                 
                 // Log chapter metadata for debugging
                 console.log(`チャプターメタデータファイルを作成しました: ${metadataFile}`);
@@ -424,4 +574,93 @@ export class SpeechSynthesizer {
             throw new Error(`結合音声の生成に失敗しました: ${error}`);
         }
     }
+
+    /**
+     * ffmpegのメタデータファイルで特別な意味を持つ文字をエスケープ
+     */
+    private escapeMetadataValue(value: string): string {
+        return value.replace(/([=;#\\])/g, '\\$1').replace(/\n/g, '\\\n');
+    }
+
+    /**
+     * ffmpeg用のチャプターメタデータファイルを作成
+     */
+    private writeChapterMetadata(chapters: ChapterInfo[], metadataFile: string): void {
+        let metadataContent = ';FFMETADATA1\n';
+
+        chapters.forEach((chapter) => {
+            const startMs = Math.floor(chapter.startTime * 1000);
+            const endMs = Math.floor((chapter.startTime + chapter.duration) * 1000);
+            metadataContent += `[CHAPTER]\n`;
+            metadataContent += `TIMEBASE=1/1000\n`;
+            metadataContent += `START=${startMs}\n`;
+            metadataContent += `END=${endMs}\n`;
+            metadataContent += `title=${this.escapeMetadataValue(chapter.title)}\n`;
+            if (chapter.summary) {
+                metadataContent += `description=${this.escapeMetadataValue(chapter.summary)}\n`;
+            }
+            metadataContent += '\n';
+        });
+
+        fs.writeFileSync(metadataFile, metadataContent, 'utf8');
+    }
+
+    /**
+     * チャプターごとの音声ファイルを1秒の間を挟んで結合する
+     * チャプターの音声は出力ファイルと同じディレクトリにある前提
+     * @param outputFile 出力音声ファイルのパス（.m4aの場合はチャプター情報を埋め込む）
+     * @param chapters チャプター情報の配列
+     */
+    async combineChapterAudio(outputFile: string, chapters: ChapterInfo[]): Promise<void> {
+        const dir = path.dirname(outputFile);
+        const audioFiles = chapters.map(chapter => path.join(dir, `${chapter.fileName}.mp3`));
+        const missing = audioFiles.filter(file => !fs.existsSync(file));
+        if (missing.length > 0) {
+            throw new Error(`結合する音声ファイルが見つかりません: ${missing.map(file => path.basename(file)).join(', ')}`);
+        }
+
+        // モックのWAVファイルはそのまま結合する（チャプター情報は埋め込まない）
+        if (config.speech.engine === 'mock') {
+            concatWavFiles(audioFiles, outputFile, 1.0);
+            console.log(`結合した音声ファイルを生成しました (モック): ${outputFile}`);
+            return;
+        }
+
+        const filterFile = path.join(dir, 'combined_filter.txt');
+        const metadataFile = path.join(dir, 'combined_metadata.txt');
+        const isM4A = outputFile.endsWith('.m4a');
+
+        try {
+            console.log(`チャプターごとの音声を結合中... (${path.basename(outputFile)})`);
+
+            // チャプター間に1秒の無音を挟む（チャプター情報の開始時間と一致させる）
+            const inputs = audioFiles.map(file => `-i "${file}"`).join(' ');
+            const filters = audioFiles.map((_, i) => {
+                const pad = i < audioFiles.length - 1 ? ',apad=pad_dur=1' : '';
+                return `[${i}:a]aresample=44100${pad}[a${i}]`;
+            });
+            const concatInputs = audioFiles.map((_, i) => `[a${i}]`).join('');
+            fs.writeFileSync(filterFile, `${filters.join(';')};${concatInputs}concat=n=${audioFiles.length}:v=0:a=1[out]`, 'utf8');
+
+            let command: string;
+            if (isM4A) {
+                this.writeChapterMetadata(chapters, metadataFile);
+                command = `ffmpeg -y ${inputs} -i "${metadataFile}" -filter_complex_script "${filterFile}" -map "[out]" -map_metadata ${audioFiles.length} -codec:a aac -b:a 192k -movflags +faststart "${outputFile}"`;
+            } else {
+                command = `ffmpeg -y ${inputs} -filter_complex_script "${filterFile}" -map "[out]" -codec:a libmp3lame -b:a 192k "${outputFile}"`;
+            }
+
+            await execPromise(command, { maxBuffer: 1024 * 1024 * 10 });
+            console.log(`結合した音声ファイルを生成しました: ${outputFile}`);
+        } catch (error) {
+            console.error('チャプター音声の結合中にエラーが発生しました:', error);
+            throw new Error(`チャプター音声の結合に失敗しました: ${error}`);
+        } finally {
+            for (const file of [filterFile, metadataFile]) {
+                if (fs.existsSync(file)) {
+                    fs.unlinkSync(file);
+                }
+            }
+        }
+    }
 }
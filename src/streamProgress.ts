@@ -0,0 +1,107 @@
+import {countTokens} from './tokenCounter';
+
+/**
+ * 受信中のリクエストの状態
+ */
+interface ActiveStream {
+    label: string;
+    model: string;
+    chars: number;
+    tokens: number;
+    startedAt: number;
+}
+
+// 進捗表示を更新する間隔（ミリ秒）
+const TTY_RENDER_INTERVAL_MS = 200;
+// 端末以外（ログファイルへのリダイレクトなど）に出力する場合の間隔（ミリ秒）
+const LOG_RENDER_INTERVAL_MS = 10000;
+
+/**
+ * 端末での表示幅に収まるよう切り詰める（全角文字は2桁として数える）
+ */
+function truncateToWidth(text: string, width: number): string {
+    let used = 0;
+    let result = '';
+    for (const char of text) {
+        used += char.charCodeAt(0) > 0xff ? 2 : 1;
+        if (used > width) break;
+        result += char;
+    }
+    return result;
+}
+
+/**
+ * ストリーミングで受信中のリクエストの進捗（受信した文字数・トークン数）を表示する
+ * 並列に処理している場合も、受信中のリクエストを1行にまとめて表示する
+ */
+export class StreamProgress {
+    private active = new Map<number, ActiveStream>();
+    private nextId = 0;
+    private lastRenderedAt = 0;
+    private isTTY: boolean;
+
+    constructor() {
+        this.isTTY = Boolean(process.stdout.isTTY);
+    }
+
+    /**
+     * 受信を開始したリクエストを登録
+     * @returns update / finish に渡すID
+     */
+    start(label: string, model: string): number {
+        const id = this.nextId++;
+        this.active.set(id, {label, model, chars: 0, tokens: 0, startedAt: Date.now()});
+        return id;
+    }
+
+    /**
+     * 受信したテキストを反映し、一定間隔で表示を更新
+     */
+    update(id: number, delta: string): void {
+        const stream = this.active.get(id);
+        if (!stream) return;
+
+        stream.chars += delta.length;
+        stream.tokens += countTokens(delta, stream.model);
+
+        const now = Date.now();
+        if (now - this.lastRenderedAt >= (this.isTTY ? TTY_RENDER_INTERVAL_MS : LOG_RENDER_INTERVAL_MS)) {
+            this.lastRenderedAt = now;
+            this.render();
+        }
+    }
+
+    /**
+     * 受信が終わった（または失敗した）リクエストを表示から外す
+     */
+    finish(id: number): void {
+        this.active.delete(id);
+        if (this.isTTY) {
+            this.clearLine();
+            if (this.active.size > 0) this.render();
+        }
+    }
+
+    private render(): void {
+        const status = Array.from(this.active.values())
+            .map(stream => {
+                const seconds = Math.round((Date.now() - stream.startedAt) / 1000);
+                return `${stream.label} ${stream.chars.toLocaleString()}文字 / ${stream.tokens.toLocaleString()}トークン (${seconds}秒)`;
+            })
+            .join(' | ');
+        if (!status) return;
+
+        if (this.isTTY) {
+            // 端末の幅を超えると改行されて上書きできなくなるため切り詰める
+            const width = process.stdout.columns || 120;
+            this.clearLine();
+            process.stdout.write(truncateToWidth(`受信中: ${status}`, width - 1));
+        } else {
+            console.log(`受信中: ${status}`);
+        }
+    }
+
+    private clearLine(): void {
+        process.stdout.write('\r\x1b[2K');
+    }
+}
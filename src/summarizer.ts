@@ -1,181 +1,769 @@
-import axios from 'axios';
 import * as fs from 'fs';
 import * as path from 'path';
 import {config} from './config';
+import {FileManager} from './fileManager';
 import {textFormatter} from './textFormatter';
+import {ChatMessage, ChatResponse, createLLMProvider, LLMProvider} from './llmProvider';
+import {classifyError, LLMRequestError, withRetry} from './retryPolicy';
+import {CacheStats, NarrationCache} from './narrationCache';
+import {TokenRateLimiter} from './rateLimiter';
+import {charsToTokens, countTokens} from './tokenCounter';
+import {getModelLimits} from './modelLimits';
+import {ChunkPlan, planChunks} from './textChunker';
+import {ChapterDocument, loadChapterDocument} from './chapterDocument';
+import {calculateCost, findModelPrice, formatCost, loadPriceTable, ModelPrice, PriceTable} from './costEstimator';
+import {CostLedger} from './costLedger';
+import {runWithConcurrency} from './workerPool';
+import {StreamProgress} from './streamProgress';
+import {recordNarration} from './narrationReview';
+import {BookContext, ChapterContext, createRecapFromNarration, createRecapFromSource} from './bookContext';
+import {buildNarrationVariables, getBuiltInTemplateName, getPersona, loadPromptTemplate, Persona, renderTemplate} from './promptTemplate';
+import {buildTranslationNote, NarrationLanguage} from './language';
+import {
+    buildStructuredOutputPrompt,
+    ChapterNotes,
+    extractNarrationText,
+    getNotesPath,
+    mergeStructuredNarrations,
+    parseStructuredNarration,
+    saveChapterNotes,
+    toChapterNotes
+} from './chapterNotes';
+import {ENGLISH_SPEAKER_LABELS, getScriptPath, parseDialogueScript, saveDialogueScript, scriptToText, SPEAKER_LABELS} from './dialogueScript';
+import {buildTargetLengthInstruction, checkLengthTarget, getLengthTarget, LengthTarget, scaleLengthTarget} from './narrationLength';
+import {findGlossaryEntries, Glossary, GLOSSARY_EXTRACTION_PROMPT, GlossaryEntry, mergeGlossaryEntries, parseGlossaryEntries} from './glossary';
+import {buildLintFixPrompt, ChapterQualityReport, lintNarration, summarizeViolations} from './narrationLinter';
+import {
+    buildReviewQuizPrompt,
+    getReviewPaths,
+    getReviewTitle,
+    loadReviewQuiz,
+    MAX_REVIEW_QUESTIONS,
+    MIN_REVIEW_QUESTIONS,
+    parseReviewQuestions,
+    ReviewQuiz,
+    saveReviewQuiz
+} from './reviewQuiz';
 
 interface SummaryOptions {
     model?: string;
     temperature?: number;
-    maxLength?: number;
+    maxChunkTokens?: number;   // 1チャンクあたりの入力トークン数（未指定時はモデルから計算）
+    context?: ChapterContext;  // 本の中でのチャプターの位置づけ
+    chapterName?: string;      // 利用料台帳に記録するチャプター名
+    lengthTarget?: LengthTarget;  // チャプター全体の分量の目標
+    partialPath?: string;      // 受信途中の出力を書き出す.partialファイル
+}
+
+/**
+ * ナレーションの生成結果
+ */
+export interface NarrationOutput {
+    narration: string;
+    notes: ChapterNotes | null;   // 構造化出力が無効、または解析できなかった場合はnull
+    formatErrors: string[];       // 構造化出力の解析・検証エラー
+}
+
+/**
+ * チャプターごとの費用見積もり
+ */
+export interface ChapterCostEstimate {
+    fileName: string;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+}
+
+/**
+ * 書籍全体の費用見積もり
+ */
+export interface CostEstimate {
+    model: string;
+    priced: boolean;   // 料金表にモデルが見つかったか
+    chapters: ChapterCostEstimate[];
+    totalInputTokens: number;
+    totalOutputTokens: number;
+    totalCost: number;
+}
+
+// 出力が途中で打ち切られた場合に続きを要求するプロンプト
+const CONTINUATION_PROMPTS: Record<NarrationLanguage, string> = {
+    ja: '出力が途中で切れています。直前の出力の最後の文の続きから、同じ内容を繰り返さずに最後まで出力してください。前置きは不要です。',
+    en: 'Your output was cut off. Continue from the end of the last sentence of your previous output and finish it without repeating anything. No preamble.'
+};
+
+// チャンクの入力トークン数を計算する際に確保する余裕
+const CHUNK_SAFETY_MARGIN_TOKENS = 1000;
+
+// チャンクの入力トークン数の下限
+const MIN_CHUNK_TOKENS = 1000;
+
+// 用語抽出の温度（毎回同じ用語が抽出されるよう低めにする）
+const GLOSSARY_TEMPERATURE = 0.2;
+
+// 振り返りクイズ作成時の温度
+const REVIEW_TEMPERATURE = 0.5;
+
+// 振り返りクイズの1問あたりの出力トークン数の見込み（問題・選択肢・解説）
+const REVIEW_TOKENS_PER_QUESTION = 200;
+
+// 用語抽出の1リクエストあたりの出力トークン数の見込み（最大30語程度のJSON）
+const GLOSSARY_OUTPUT_TOKENS = 1500;
+
+// 短すぎるナレーションを判定する対象とする原文の最小文字数
+const MIN_SOURCE_LENGTH_FOR_RATIO_CHECK = 3000;
+
+/**
+ * 処理に失敗したチャプターの情報
+ */
+export interface FailedChapter {
+    fileName: string;
+    reason: string;
+}
+
+/**
+ * 処理はできたが確認が必要なチャプターの情報
+ */
+export interface ChapterWarning {
+    fileName: string;
+    message: string;
+}
+
+/**
+ * チャプター一括処理の結果
+ */
+export interface NarrationResult {
+    processedFiles: string[];
+    failedChapters: FailedChapter[];
+    warnings: ChapterWarning[];
 }
 
 export class Summarizer {
-    private apiKey: string;
-    private defaultModel = 'gpt-4.1-mini';
+    private provider: LLMProvider;
+    private cache: NarrationCache;
+    private rateLimiter: TokenRateLimiter;
+    private progress = new StreamProgress();
+    private persona: Persona;
+    private promptTemplate: string;
+    private priceTable: PriceTable;
+    private ledger: CostLedger | null = null;
+    private spentCost = 0;  // 今回の実行で使った金額（USD）
+    private warnings: ChapterWarning[] = [];
+    private qualityReports = new Map<string, ChapterQualityReport>();
+    private glossary: Glossary | null = null;
+    private defaultModel = config.llm.model;
     private defaultTemperature = 0.7;
-    private defaultMaxLength = 500000; // GPT-4.1 mini: 30万トークン推奨 ≈ 50万文字
 
-    constructor() {
-        // 環境変数からAPIキーを取得
-        this.apiKey = process.env.OPENAI_API_KEY || '';
+    constructor(provider?: LLMProvider) {
+        // 指定がなければ設定からプロバイダーを生成
+        this.provider = provider || createLLMProvider(config.llm);
+        this.cache = new NarrationCache(path.join(config.outputDir, '.narration-cache'), config.narration.refreshCache);
+        this.rateLimiter = new TokenRateLimiter(config.llm.tokensPerMinute);
+        this.persona = getPersona(config.narration.persona, config.language.target);
+        this.promptTemplate = loadPromptTemplate(
+            config.narration.promptFile,
+            getBuiltInTemplateName(config.narration.mode, config.language.target)
+        );
+        this.priceTable = loadPriceTable(config.llm.priceTablePath);
 
-        if (!this.apiKey) {
-            console.warn('警告: OPENAI_API_KEYが設定されていません。環境変数で設定してください。');
+        if (this.provider.requiresApiKey && !config.llm.apiKey) {
+            console.warn(`警告: ${this.provider.name}のAPIキーが設定されていません。環境変数で設定してください。`);
         }
     }
 
     /**
-     * テキストをChatGPT APIで要約・変換
+     * APIキーが必要なプロバイダーでキーが未設定ならエラーにする
      */
-    async summarizeText(text: string, options: SummaryOptions = {}): Promise<string> {
-        if (!this.apiKey) {
-            throw new Error('OPENAI_API_KEYが設定されていません。');
+    private ensureApiKey(): void {
+        if (this.provider.requiresApiKey && !config.llm.apiKey) {
+            throw new Error(`${this.provider.name}のAPIキーが設定されていません。`);
         }
+    }
 
-        // フォーマッターで前処理
-        const formattedText = textFormatter.prepareForSummary(text);
+    /**
+     * テンプレートとペルソナからシステムプロンプトを生成
+     */
+    private buildSystemPrompt(
+        context?: ChapterContext,
+        chunkIndex: number = 0,
+        totalChunks: number = 1,
+        lengthTarget?: LengthTarget
+    ): string {
+        const targetLength = lengthTarget
+            ? buildTargetLengthInstruction(config.narration.length, lengthTarget, this.persona.targetLength, config.language.target)
+            : undefined;
+        const prompt = renderTemplate(this.promptTemplate, {
+            ...buildNarrationVariables(this.persona, context, chunkIndex, totalChunks, targetLength, config.language.target),
+            translationNote: buildTranslationNote(config.language.source || config.language.target, config.language.target)
+        });
 
-        // オプションの設定
+        // 構造化出力では、ナレーションと番組ノートをJSONで出力させる
+        return config.narration.structuredOutput ? `${prompt}\n\n${buildStructuredOutputPrompt()}` : prompt;
+    }
+
+    /**
+     * プロバイダー経由でチャットAPIを呼び出し、生成テキストを返す
+     * 最大トークン数に達して出力が途中で打ち切られた場合は、続きを要求して結合する
+     */
+    private async complete(messages: ChatMessage[], options: SummaryOptions, debugLabel: string): Promise<string> {
         const model = options.model || this.defaultModel;
         const temperature = options.temperature || this.defaultTemperature;
-        const maxLength = options.maxLength || this.defaultMaxLength;
 
-        // テキストが長すぎる場合は分割
-        if (formattedText.length > maxLength) {
-            console.log(`テキストが長すぎるため、${maxLength}文字ごとに分割して処理します。`);
-            return this.summarizeLongText(formattedText, options);
+        // 同じ入力・プロンプト・モデル・温度のリクエストはキャッシュから返す
+        const cacheKey = NarrationCache.createKey(messages, model, temperature);
+        const cached = this.cache.get(cacheKey);
+        if (cached !== null) {
+            console.log('キャッシュ済みのナレーションを使用します');
+            return cached;
         }
 
+        let response = await this.requestChat(messages, options, debugLabel);
+        let content = response.content;
+        let continuations = 0;
+
+        while (response.finishReason === 'length' && continuations < config.llm.maxContinuations) {
+            continuations++;
+            console.log(`出力が最大トークン数で打ち切られたため、続きを要求します (${continuations}/${config.llm.maxContinuations})`);
+
+            response = await this.requestChat([
+                ...messages,
+                {role: 'assistant', content},
+                {role: 'user', content: CONTINUATION_PROMPTS[config.language.target]}
+            ], options, `${debugLabel}（続き${continuations}）`);
+            content += response.content;
+        }
+
+        // 完結しなかった出力はキャッシュしない（次回の実行で再生成されるようにする）
+        if (response.finishReason === 'length') {
+            const message = `${config.llm.maxContinuations}回続きを要求しても出力が完結しませんでした（キャッシュには保存しません）`;
+            console.warn(`警告: ${message}`);
+            this.warnings.push({fileName: options.chapterName || debugLabel, message});
+        } else {
+            this.cache.set(cacheKey, content, model, temperature);
+        }
+
+        return content;
+    }
+
+    /**
+     * 生成結果の品質をチェックし、違反があれば違反内容を伝えて書き直しを求める
+     * 最大config.narration.maxLintRetries回まで書き直し、最も違反の少ない結果を返す
+     */
+    private async completeWithLint(messages: ChatMessage[], options: SummaryOptions, debugLabel: string): Promise<string> {
+        const lintOptions = {persona: this.persona, maxKeigoRatio: config.narration.maxKeigoRatio, language: config.language.target};
+
+        // 構造化出力の場合はナレーション本文だけをチェックする
+        const lint = (output: string) => lintNarration(
+            config.narration.structuredOutput ? extractNarrationText(output) : output,
+            lintOptions
+        );
+
+        let content = await this.complete(messages, options, debugLabel);
+        let violations = lint(content);
+        const initialViolations = violations;
+        let best = {content, violations};
+        let attempts = 1;
+
+        while (violations.length > 0 && attempts <= config.narration.maxLintRetries) {
+            console.log(`品質チェックで違反が見つかったため、書き直しを要求します (${attempts}/${config.narration.maxLintRetries}): ${summarizeViolations(violations)}`);
+
+            content = await this.complete([
+                ...messages,
+                {role: 'assistant', content},
+                {role: 'user', content: buildLintFixPrompt(violations, config.language.target)}
+            ], options, `${debugLabel}（書き直し${attempts}）`);
+            violations = lint(content);
+            attempts++;
+
+            if (violations.length < best.violations.length) {
+                best = {content, violations};
+            }
+        }
+
+        this.recordQuality(options.chapterName || debugLabel, attempts, initialViolations, best.violations);
+
+        return best.content;
+    }
+
+    /**
+     * チャプターの品質レポートに結果を追加する（分割したチャンクの結果はまとめて記録）
+     */
+    private recordQuality(
+        fileName: string,
+        attempts: number,
+        initialViolations: ChapterQualityReport['initialViolations'],
+        remainingViolations: ChapterQualityReport['remainingViolations']
+    ): void {
+        const report = this.qualityReports.get(fileName);
+        if (report) {
+            report.attempts += attempts;
+            report.initialViolations.push(...initialViolations);
+            report.remainingViolations.push(...remainingViolations);
+        } else {
+            this.qualityReports.set(fileName, {
+                fileName,
+                attempts,
+                initialViolations: [...initialViolations],
+                remainingViolations: [...remainingViolations]
+            });
+        }
+    }
+
+    /**
+     * 品質レポートをファイルに保存し、違反が残ったチャプターを警告に追加
+     */
+    private saveQualityReport(outputDir: string): void {
+        const chapters = Array.from(this.qualityReports.values())
+            .sort((a, b) => a.fileName.localeCompare(b.fileName));
+
+        for (const report of chapters) {
+            if (report.remainingViolations.length > 0) {
+                this.warnings.push({
+                    fileName: report.fileName,
+                    message: `品質チェックの違反が残っています: ${summarizeViolations(report.remainingViolations)}`
+                });
+            }
+        }
+
+        const reportPath = path.join(outputDir, 'quality-report.json');
+        fs.writeFileSync(reportPath, JSON.stringify({generatedAt: new Date().toISOString(), chapters}, null, 2), 'utf8');
+        console.log(`品質レポートを "${reportPath}" に保存しました`);
+    }
+
+    /**
+     * プロバイダーにリクエストを送る（リトライの1回分）
+     * ストリーミングの場合は受信の進捗を表示し、受信したテキストを.partialファイルに追記する
+     */
+    private async sendChat(
+        messages: ChatMessage[],
+        model: string,
+        temperature: number,
+        options: SummaryOptions,
+        debugLabel: string
+    ): Promise<ChatResponse> {
+        const request = {model, messages, temperature, maxTokens: this.getMaxOutputTokens(model)};
+        if (options.partialPath) {
+            const separator = fs.existsSync(options.partialPath) && fs.statSync(options.partialPath).size > 0 ? '\n\n' : '';
+            this.appendPartial(options.partialPath, `${separator}----- ${debugLabel} -----\n`);
+        }
+
+        if (!config.llm.stream) {
+            const response = await this.provider.chat(request);
+            if (options.partialPath) {
+                this.appendPartial(options.partialPath, response.content);
+            }
+            return response;
+        }
+
+        const progressId = this.progress.start(options.chapterName || debugLabel, model);
         try {
-            const response = await axios.post(
-                'https://api.openai.com/v1/chat/completions',
-                {
-                    model: model,
-                    messages: [
-                        {
-                            role: 'system',
-                            content: `あなたは、技術書を音声用コンテンツに変換するナレーション編集者です。
-
-以下の入力テキストは、技術書の1つの章の内容です。
-この本は最終的に1つの長編ポッドキャストエピソードとして配信されます。
-各章を、本全体の流れの中で自然につながるように変換してください。
-
-### 制約とルール：
-
-- フランクで親しみやすい口調にしてください（例：「〜なんだよね」「って話」など）
-- **絶対に敬語は使わないでください**（「〜です」「〜ます」「〜してください」は禁止）
-- **一人称は「僕」で統一してください**（「私」「僕たち」「俺」は使わない）
-- 「今日は」「今回は」のような個別エピソード的な表現は避けてください
-- 章の始まりでは、章のタイトルを自然に紹介してください（例：「次に見ていくのは〜について」「続いては〜の話」）
-- 章の終わりは次章への期待感を持たせるような締めくくりにしてください
-- 初めの章なら本全体の概要を含め、最後の章なら全体のまとめを含めてください
-- 「さて」だけでなく、「続いては」「次に」「それでは」など、様々な接続詞を使って単調にならないようにしてください
-- 一般のエンジニアが聞いて理解できるようにしてください（専門用語は補足 or 言い換えOK）
-- **ソースコードは絶対に出力しないでください**（コードブロックや具体的なコードは一切禁止）
-- コードの説明が必要な場合は「このコードは〜という処理をしている」のように概念的に説明してください
-- URLが含まれていた場合は、読み上げに適した表現に言い換えてください
-- 難解な文は、シンプルに分解してください
-- 音声で聞いて自然な流れになるように、語順や文の切り方を工夫してください
-
-出力は、音声用ナレーションとしてそのまま使える自然な日本語の文章にしてください。
-
-※短くまとめすぎず、話し言葉として自然なボリュームになるようにしてください。
-※内容の厚みや深みを持たせつつ、聞き手が飽きずに聞ける程度の長さを意識してください。
-※例え話や補足を使ってわかりやすく説明しながら、同じ内容を繰り返さず、スッキリ伝えてください。`
-                        },
-                        {
-                            role: 'user',
-                            content: formattedText
-                        }
-                    ],
-                    temperature: temperature,
-                    max_tokens: 16000
-                },
-                {
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'Authorization': `Bearer ${this.apiKey}`
+            return await this.provider.chat({
+                ...request,
+                onDelta: delta => {
+                    this.progress.update(progressId, delta);
+                    if (options.partialPath) {
+                        this.appendPartial(options.partialPath, delta);
                     }
                 }
+            });
+        } finally {
+            this.progress.finish(progressId);
+        }
+    }
+
+    /**
+     * .partialファイルに受信した出力を追記（中断された場合に途中までの出力を確認できるようにする）
+     */
+    private appendPartial(partialPath: string, text: string): void {
+        fs.appendFileSync(partialPath, text, 'utf8');
+    }
+
+    /**
+     * 予算の確認・レート制限・リトライ・利用料の記録を行いながらチャットAPIを1回呼び出す
+     */
+    private async requestChat(messages: ChatMessage[], options: SummaryOptions, debugLabel: string): Promise<ChatResponse> {
+        const model = options.model || this.defaultModel;
+        const temperature = options.temperature || this.defaultTemperature;
+        const price = findModelPrice(this.priceTable, model);
+        const inputTokens = countTokens(messages.map(message => message.content).join('\n'), model);
+
+        // 予算上限を超えそうな場合はリクエストを送らずに中断
+        if (config.llm.maxCost !== undefined) {
+            const expectedCost = calculateCost(price, inputTokens, this.estimateOutputTokens(inputTokens));
+            if (this.spentCost + expectedCost > config.llm.maxCost) {
+                throw new LLMRequestError(
+                    `予算上限 (${formatCost(config.llm.maxCost)}) を超えるため中断します (使用済み ${formatCost(this.spentCost)} + 見込み ${formatCost(expectedCost)})`,
+                    {retryable: false, fatal: true}
+                );
+            }
+        }
+
+        // 送信トークン数（入力＋最大出力）が1分あたりの上限に収まるまで待機
+        await this.rateLimiter.acquire(inputTokens + this.getMaxOutputTokens(model));
+
+        // 一時的なエラー（429や5xxなど）はバックオフしながら再試行
+        const response = await withRetry(() => this.sendChat(messages, model, temperature, options, debugLabel), config.llm.retry, debugLabel);
+
+        if (config.debug) {
+            console.log(`${debugLabel}:`, JSON.stringify(response.raw, null, 2));
+        }
+
+        // 実際の利用量を記録（usageを返さないプロバイダーではトークナイザーで数える）
+        const usage = response.usage || {inputTokens, outputTokens: countTokens(response.content, model)};
+        const cost = calculateCost(price, usage.inputTokens, usage.outputTokens);
+        this.spentCost += cost;
+        this.ledger?.record({
+            chapter: options.chapterName || debugLabel,
+            provider: this.provider.name,
+            model,
+            inputTokens: usage.inputTokens,
+            outputTokens: usage.outputTokens,
+            cost
+        });
+
+        return response;
+    }
+
+    /**
+     * 1回のリクエストで指定する最大出力トークン数（設定値をモデルの出力上限に収める）
+     * 上限を超えるmax_tokensはモデルによってはエラー（HTTP 400）になる
+     */
+    private getMaxOutputTokens(model: string): number {
+        return Math.min(config.llm.maxTokens, getModelLimits(model, config.llm.contextWindow).maxOutputTokens);
+    }
+
+    /**
+     * 入力トークン数から出力トークン数を見積もる
+     */
+    private estimateOutputTokens(inputTokens: number): number {
+        return Math.min(config.llm.maxTokens, Math.round(inputTokens * config.llm.outputRatio));
+    }
+
+    /**
+     * ナレーション対象のチャプターをトークナイザーで数え、費用を見積もる
+     * 用語集を作るチャプターの用語抽出と、振り返りクイズを作る設定の場合は見積もったナレーションを入力とするクイズの作成も含める
+     * 前章の振り返りは実行時まで決まらないため含めない
+     * @param glossaryFiles 用語を抽出するチャプター（用語集を作らない・既存の用語集を使う場合は空）
+     */
+    estimateCosts(validFiles: string[], book?: BookContext, glossaryFiles: string[] = []): CostEstimate {
+        const model = this.defaultModel;
+        const price = findModelPrice(this.priceTable, model);
+
+        const chapters = validFiles.map((file, index) => {
+            const document = loadChapterDocument(file);
+            const position = book ? this.findOutlinePosition(book, file, index) : index;
+            const context = book ? {book, index: position, total: book.outline.length, title: book.outline[position]?.title || ''} : undefined;
+            const formattedText = textFormatter.prepareForSummary(document);
+            const lengthTarget = getLengthTarget(
+                config.narration.length,
+                formattedText.length,
+                config.speech.rate,
+                config.narration.minutesPerChapter,
+                config.language.target
             );
+            const systemTokens = countTokens(this.buildSystemPrompt(context, 0, 1, lengthTarget), model);
+            const textTokens = countTokens(formattedText, model);
+            const budgetTokens = this.getChunkBudget(model, context);
 
-            // レスポンスから要約テキストを取得
-            const summary = response.data.choices[0].message.content;
+            // 出力は分量の目標（文字数）をトークン数に換算したものを上限として見積もる
+            // 原文と出力の言語が同じ場合は原文の1文字あたりのトークン数を、翻訳の場合は出力の言語の見本を使う
+            const isTranslation = (config.language.source || config.language.target) !== config.language.target;
+            const maxOutputTokens = charsToTokens(lengthTarget.chars, model, config.language.target, isTranslation ? undefined : formattedText);
+            let inputTokens = systemTokens + textTokens;
+            let outputTokens = Math.min(maxOutputTokens, this.estimateOutputTokens(textTokens));
 
-            if (config.debug) {
-                console.log('APIレスポンス:', JSON.stringify(response.data, null, 2));
+            // 分割される場合は、チャンクごとのシステムプロンプトと前のチャンクの要約も入力に含まれる
+            if (textTokens > budgetTokens) {
+                const plan = planChunks(document, model, budgetTokens, config.llm.chunkOverlapTokens);
+                if (config.debug) {
+                    console.log(`\n${path.basename(file)}:`);
+                    this.printChunkPlan(plan);
+                }
+
+                const chunkOutputs = plan.chunks.map(chunk => Math.min(
+                    Math.round(maxOutputTokens * chunk.tokens / plan.totalTokens),
+                    this.estimateOutputTokens(chunk.tokens)
+                ));
+                inputTokens = plan.chunks.reduce((sum, chunk, i) => sum + systemTokens + chunk.tokens + (i > 0 ? chunkOutputs[i - 1] : 0), 0);
+                outputTokens = chunkOutputs.reduce((sum, tokens) => sum + tokens, 0);
             }
 
-            return summary;
-        } catch (error) {
-            console.error('ChatGPT API呼び出し中にエラーが発生しました:', error);
-            if (axios.isAxiosError(error) && error.response) {
-                console.error('APIレスポンス:', error.response.data);
+            return {
+                fileName: path.basename(file),
+                inputTokens,
+                outputTokens,
+                cost: calculateCost(price, inputTokens, outputTokens)
+            };
+        });
+
+        if (config.review.mode !== 'off' && chapters.length > 0) {
+            chapters.push(this.estimateReviewQuizCost(chapters, model, price));
+        }
+        if (glossaryFiles.length > 0) {
+            chapters.unshift(this.estimateGlossaryCost(glossaryFiles, model, price));
+        }
+
+        return {
+            model,
+            priced: price !== null,
+            chapters,
+            totalInputTokens: chapters.reduce((sum, chapter) => sum + chapter.inputTokens, 0),
+            totalOutputTokens: chapters.reduce((sum, chapter) => sum + chapter.outputTokens, 0),
+            totalCost: chapters.reduce((sum, chapter) => sum + chapter.cost, 0)
+        };
+    }
+
+    /**
+     * 用語集の作成（チャプターごと、予算を超えるチャプターは分割したチャンクごとに1回）の費用を見積もる
+     */
+    private estimateGlossaryCost(glossaryFiles: string[], model: string, price: ModelPrice | null): ChapterCostEstimate {
+        const budgetTokens = this.getChunkBudget(model);
+        const systemTokens = countTokens(GLOSSARY_EXTRACTION_PROMPT, model);
+        let inputTokens = 0;
+        let outputTokens = 0;
+
+        for (const file of glossaryFiles) {
+            const document = loadChapterDocument(file);
+            const textTokens = countTokens(textFormatter.prepareForSummary(document), model);
+            const parts = textTokens > budgetTokens
+                ? planChunks(document, model, budgetTokens, 0).chunks.map(chunk => chunk.tokens)
+                : [textTokens];
+            inputTokens += parts.reduce((sum, tokens) => sum + systemTokens + tokens, 0);
+            outputTokens += parts.reduce((sum, tokens) => sum + Math.min(GLOSSARY_OUTPUT_TOKENS, this.estimateOutputTokens(tokens)), 0);
+        }
+
+        return {
+            fileName: '（用語集の作成）',
+            inputTokens,
+            outputTokens,
+            cost: calculateCost(price, inputTokens, outputTokens)
+        };
+    }
+
+    /**
+     * 振り返りクイズの作成（チャプターごとに1回、見積もったナレーションを入力とする）の費用を見積もる
+     */
+    private estimateReviewQuizCost(chapters: ChapterCostEstimate[], model: string, price: ModelPrice | null): ChapterCostEstimate {
+        const questionCount = Math.min(MAX_REVIEW_QUESTIONS, Math.max(MIN_REVIEW_QUESTIONS, config.review.questionCount));
+        const systemTokens = countTokens(buildReviewQuizPrompt(questionCount, config.language.target), model);
+        const inputTokens = chapters.reduce((sum, chapter) => sum + systemTokens + chapter.outputTokens, 0);
+        const outputTokens = chapters.length * questionCount * REVIEW_TOKENS_PER_QUESTION;
+        return {
+            fileName: '（振り返りクイズ）',
+            inputTokens,
+            outputTokens,
+            cost: calculateCost(price, inputTokens, outputTokens)
+        };
+    }
+
+    /**
+     * 今回の実行で使った金額（USD）を取得
+     */
+    getSpentCost(): number {
+        return this.spentCost;
+    }
+
+    /**
+     * チャプターのプロンプトに含める用語集を設定
+     */
+    setGlossary(glossary: Glossary | null): void {
+        this.glossary = glossary;
+    }
+
+    /**
+     * 各チャプターから専門用語と読みを抽出し、書籍全体の用語集を作る
+     * 失敗したチャプターは用語集に含めずに続行する（致命的なエラーの場合は中断）
+     * @param outputDir API利用料の台帳の保存先（ナレーションと同じディレクトリ）
+     */
+    async buildGlossary(validFiles: string[], outputDir: string): Promise<Glossary> {
+        this.ensureApiKey();
+        this.ledger = new CostLedger(path.join(outputDir, 'cost-ledger.json'));
+        const model = this.defaultModel;
+        const budgetTokens = this.getChunkBudget(model);
+
+        const entryLists = await runWithConcurrency(validFiles, config.llm.concurrency, async (file, i) => {
+            const fileName = path.basename(file);
+            console.log(`[${i + 1}/${validFiles.length}] "${fileName}" から用語を抽出中...`);
+
+            const document = loadChapterDocument(file);
+            const formattedText = textFormatter.prepareForSummary(document);
+            const parts = countTokens(formattedText, model) > budgetTokens
+                ? planChunks(document, model, budgetTokens, 0).chunks.map(chunk => chunk.text)
+                : [formattedText];
+
+            const entries: GlossaryEntry[] = [];
+            for (const part of parts) {
+                try {
+                    const content = await this.complete([
+                        {role: 'system', content: GLOSSARY_EXTRACTION_PROMPT},
+                        {role: 'user', content: part}
+                    ], {temperature: GLOSSARY_TEMPERATURE, chapterName: fileName}, '用語抽出のAPIレスポンス');
+                    entries.push(...parseGlossaryEntries(content));
+                } catch (error) {
+                    const classified = classifyError(error);
+                    if (classified.fatal) {
+                        throw classified;
+                    }
+                    console.warn(`"${fileName}" の用語抽出に失敗しました。スキップします: ${classified.message}`);
+                }
+            }
+            return entries;
+        });
+
+        return {version: 1, entries: mergeGlossaryEntries(entryLists), chapters: validFiles.map(file => path.basename(file))};
+    }
+
+    /**
+     * 会話調テキストから各チャプターの振り返りクイズを作成
+     * 保存済みのクイズがあれば再利用する（config.review.refreshがtrueの場合は再生成）
+     * @param narratedFiles 会話調テキストファイル（narrated_XX-タイトル.txt）
+     * @param reviewDir クイズの保存先ディレクトリ
+     * @param ledgerDir 費用台帳のディレクトリ（_narratedディレクトリ）
+     * @returns 作成できたクイズ（チャプター順）
+     */
+    async generateReviewQuizzes(narratedFiles: string[], reviewDir: string, ledgerDir: string): Promise<ReviewQuiz[]> {
+        if (!fs.existsSync(reviewDir)) {
+            fs.mkdirSync(reviewDir, {recursive: true});
+        }
+        this.ledger = new CostLedger(path.join(ledgerDir, 'cost-ledger.json'));
+
+        const language = config.language.target;
+        const questionCount = Math.min(MAX_REVIEW_QUESTIONS, Math.max(MIN_REVIEW_QUESTIONS, config.review.questionCount));
+        const systemPrompt = buildReviewQuizPrompt(questionCount, language);
+
+        const quizzes = await runWithConcurrency(narratedFiles, config.llm.concurrency, async (file, i) => {
+            const fileName = path.basename(file);
+            const {textPath, quizPath} = getReviewPaths(file, reviewDir);
+
+            const saved = config.review.refresh ? null : loadReviewQuiz(quizPath);
+            if (saved) {
+                console.log(`[${i + 1}/${narratedFiles.length}] 保存済みの振り返りクイズを使用します: ${path.basename(quizPath)}`);
+                saveReviewQuiz(saved, textPath, quizPath, language);
+                return saved;
             }
-            throw new Error('テキストの要約に失敗しました');
+
+            console.log(`[${i + 1}/${narratedFiles.length}] "${fileName}" の振り返りクイズを作成中...`);
+            this.ensureApiKey();
+            try {
+                const content = await this.complete([
+                    {role: 'system', content: systemPrompt},
+                    {role: 'user', content: fs.readFileSync(file, 'utf8')}
+                ], {temperature: REVIEW_TEMPERATURE, chapterName: fileName}, '振り返りクイズのAPIレスポンス');
+
+                const questions = parseReviewQuestions(content);
+                if (questions.length === 0) {
+                    console.warn(`"${fileName}" の振り返りクイズを読み取れませんでした。スキップします`);
+                    return null;
+                }
+                if (questions.length < MIN_REVIEW_QUESTIONS) {
+                    console.warn(`警告: "${fileName}" の振り返りクイズの問題数が少なすぎます (${questions.length}問)`);
+                }
+
+                const quiz: ReviewQuiz = {version: 1, chapter: fileName, title: getReviewTitle(file), questions};
+                saveReviewQuiz(quiz, textPath, quizPath, language);
+                return quiz;
+            } catch (error) {
+                const classified = classifyError(error);
+                if (classified.fatal) {
+                    throw classified;
+                }
+                console.warn(`"${fileName}" の振り返りクイズの作成に失敗しました。スキップします: ${classified.message}`);
+                return null;
+            }
+        });
+
+        return quizzes.filter((quiz): quiz is ReviewQuiz => quiz !== null);
+    }
+
+    /**
+     * ナレーションキャッシュの統計を取得
+     */
+    getCacheStats(): CacheStats {
+        return this.cache.getStats();
+    }
+
+    /**
+     * LLMの出力（分割した場合はチャンクごとの出力）をナレーションと番組ノートにまとめる
+     * 構造化出力として解析できない出力が1つでもあれば、番組ノートなしのプレーンテキストとして扱う
+     */
+    private toNarrationOutput(contents: string[]): NarrationOutput {
+        if (!config.narration.structuredOutput) {
+            return {narration: contents.join('\n\n'), notes: null, formatErrors: []};
+        }
+
+        const results = contents.map(content => parseStructuredNarration(content));
+        const formatErrors = results.flatMap(result => result.errors);
+        if (formatErrors.length > 0) {
+            return {
+                narration: contents.map(content => extractNarrationText(content)).join('\n\n'),
+                notes: null,
+                formatErrors
+            };
+        }
+
+        const merged = mergeStructuredNarrations(results.map(result => result.value!));
+        return {narration: merged.narration, notes: toChapterNotes(merged), formatErrors: []};
+    }
+
+    /**
+     * テキストをLLMで要約・変換
+     * @param source チャプターの文書モデル、またはHTML・プレーンテキスト
+     */
+    async summarizeText(source: string | ChapterDocument, options: SummaryOptions = {}): Promise<NarrationOutput> {
+        this.ensureApiKey();
+
+        // フォーマッターで前処理
+        const formattedText = textFormatter.prepareForSummary(source);
+
+        // 1回のリクエストに収まらない場合は、見出し・段落の構造に沿って分割
+        const model = options.model || this.defaultModel;
+        const budgetTokens = options.maxChunkTokens || this.getChunkBudget(model, options.context);
+        const totalTokens = countTokens(formattedText, model);
+        if (totalTokens > budgetTokens) {
+            const plan = planChunks(source, model, budgetTokens, config.llm.chunkOverlapTokens);
+            console.log(`テキストが長すぎるため (${totalTokens}トークン)、${budgetTokens}トークン以内の${plan.chunks.length}個のチャンクに分割して処理します。`);
+            return this.toNarrationOutput(await this.summarizeLongText(plan, options));
+        }
+
+        try {
+            const content = await this.completeWithLint([
+                {
+                    role: 'system',
+                    content: this.buildSystemPrompt(options.context, 0, 1, options.lengthTarget)
+                },
+                {
+                    role: 'user',
+                    content: formattedText
+                }
+            ], options, 'APIレスポンス');
+            return this.toNarrationOutput([content]);
+        } catch (error) {
+            // 分類済みのエラーをそのまま投げ、呼び出し側で致命的かどうかを判断できるようにする
+            const classified = classifyError(error);
+            console.error(`LLM API (${this.provider.name}) 呼び出し中にエラーが発生しました: ${classified.message}`);
+            throw classified;
         }
     }
 
     /**
      * 文脈を考慮してチャンクを要約
+     * @param chunkText 整形済みのチャンクのテキスト
      */
     private async summarizeChunkWithContext(
         chunkText: string, 
         previousSummary: string,
         chunkIndex: number,
         totalChunks: number,
-        options: SummaryOptions = {}
+        options: SummaryOptions = {},
+        lengthTarget?: LengthTarget
     ): Promise<string> {
-        if (!this.apiKey) {
-            throw new Error('OPENAI_API_KEYが設定されていません。');
-        }
-
-        // フォーマッターで前処理
-        const formattedText = textFormatter.prepareForSummary(chunkText);
-
-        // オプションの設定
-        const model = options.model || this.defaultModel;
-        const temperature = options.temperature || this.defaultTemperature;
+        this.ensureApiKey();
 
         try {
-            const messages: any[] = [
+            const messages: ChatMessage[] = [
                 {
                     role: 'system',
-                    content: `あなたは、技術書を音声用コンテンツに変換するナレーション編集者です。
-
-以下の入力テキストは、技術書の1つの章の内容です。
-この本は最終的に1つの長編ポッドキャストエピソードとして配信されます。
-各章を、本全体の流れの中で自然につながるように変換してください。
-
-### 制約とルール：
-
-- フランクで親しみやすい口調にしてください（例：「〜なんだよね」「って話」など）
-- **絶対に敬語は使わないでください**（「〜です」「〜ます」「〜してください」は禁止）
-- **一人称は「僕」で統一してください**（「私」「僕たち」「俺」は使わない）
-- 「今日は」「今回は」のような個別エピソード的な表現は避けてください
-- 章の始まりでは、章のタイトルを自然に紹介してください（例：「次に見ていくのは〜について」「続いては〜の話」）
-- 章の終わりは次章への期待感を持たせるような締めくくりにしてください
-- 初めの章なら本全体の概要を含め、最後の章なら全体のまとめを含めてください
-- 「さて」だけでなく、「続いては」「次に」「それでは」など、様々な接続詞を使って単調にならないようにしてください
-- 一般のエンジニアが聞いて理解できるようにしてください（専門用語は補足 or 言い換えOK）
-- **ソースコードは絶対に出力しないでください**（コードブロックや具体的なコードは一切禁止）
-- コードの説明が必要な場合は「このコードは〜という処理をしている」のように概念的に説明してください
-- URLが含まれていた場合は、読み上げに適した表現に言い換えてください
-- 難解な文は、シンプルに分解してください
-- 音声で聞いて自然な流れになるように、語順や文の切り方を工夫してください
-
-${chunkIndex > 0 ? `### 重要な注意事項：
-- これは${totalChunks}個に分割されたテキストの第${chunkIndex + 1}部分です
-- 前の部分からの話の続きとして、自然に繋がるようにしてください
-- 前の部分で説明した内容は「さっき話した〜」のように参照してもOKです
-- 唐突に話が始まらないよう、必要に応じて繋ぎの言葉を入れてください` : ''}
-
-出力は、音声用ナレーションとしてそのまま使える自然な日本語の文章にしてください。
-
-※短くまとめすぎず、話し言葉として自然なボリュームになるようにしてください。
-※内容の厚みや深みを持たせつつ、聞き手が飽きずに聞ける程度の長さを意識してください。
-※例え話や補足を使ってわかりやすく説明しながら、同じ内容を繰り返さず、スッキリ伝えてください。`
+                    content: this.buildSystemPrompt(options.context, chunkIndex, totalChunks, lengthTarget)
                 }
             ];
 
@@ -187,166 +775,173 @@ ${chunkIndex > 0 ? `### 重要な注意事項：
                 });
                 messages.push({
                     role: 'user',
-                    content: `前の部分の続きとして、以下のテキストを変換してください：\n\n${formattedText}`
+                    content: `前の部分の続きとして、以下のテキストを変換してください：\n\n${chunkText}`
                 });
             } else {
                 messages.push({
                     role: 'user',
-                    content: formattedText
+                    content: chunkText
                 });
             }
 
-            const response = await axios.post(
-                'https://api.openai.com/v1/chat/completions',
-                {
-                    model: model,
-                    messages: messages,
-                    temperature: temperature,
-                    max_tokens: 16000
-                },
-                {
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'Authorization': `Bearer ${this.apiKey}`
-                    }
-                }
-            );
+            return await this.completeWithLint(messages, options, `チャンク${chunkIndex + 1}のAPIレスポンス`);
+        } catch (error) {
+            const classified = classifyError(error);
+            console.error(`チャンク${chunkIndex + 1}の処理中にエラーが発生しました: ${classified.message}`);
+            throw classified;
+        }
+    }
+
+    /**
+     * モデルのトークン上限から、1チャンクあたりの入力トークン数を計算
+     * 期待する出力量が1回の出力上限に収まり、かつ前のチャンクの要約と出力を含めてコンテキストに収まる量にする
+     */
+    private getChunkBudget(model: string, context?: ChapterContext): number {
+        if (config.llm.chunkTokens) {
+            return config.llm.chunkTokens;
+        }
 
-            // レスポンスから要約テキストを取得
-            const summary = response.data.choices[0].message.content;
+        const limits = getModelLimits(model, config.llm.contextWindow);
+        const outputLimit = this.getMaxOutputTokens(model);
+        const systemPromptTokens = countTokens(this.buildSystemPrompt(context, 1, 2), model);
 
-            if (config.debug) {
-                console.log(`チャンク${chunkIndex + 1}のAPIレスポンス:`, JSON.stringify(response.data, null, 2));
-            }
+        const byOutput = Math.floor(outputLimit / config.llm.outputRatio);
+        const byContext = limits.contextWindow - systemPromptTokens - outputLimit * 2 - CHUNK_SAFETY_MARGIN_TOKENS;
 
-            return summary;
-        } catch (error) {
-            console.error(`チャンク${chunkIndex + 1}の処理中にエラーが発生しました:`, error);
-            if (axios.isAxiosError(error) && error.response) {
-                console.error('APIレスポンス:', error.response.data);
-            }
-            throw new Error(`チャンク${chunkIndex + 1}の要約に失敗しました`);
-        }
+        return Math.max(MIN_CHUNK_TOKENS, Math.min(byOutput, byContext));
     }
 
     /**
-     * 長いテキストを分割してAPIに送信し、結果を結合
+     * チャンクの分割計画を表示（デバッグ用）
      */
-    private async summarizeLongText(text: string, options: SummaryOptions = {}): Promise<string> {
-        const maxLength = options.maxLength || this.defaultMaxLength;
+    private printChunkPlan(plan: ChunkPlan): void {
+        console.log(`チャンク分割計画: 合計 ${plan.totalTokens}トークン / 上限 ${plan.budgetTokens}トークン`);
+        plan.chunks.forEach((chunk, index) => {
+            const headings = chunk.headings.length > 0 ? chunk.headings.join(' / ') : '(見出しなし)';
+            console.log(`  ${index + 1}. ${chunk.tokens}トークン (重複 ${chunk.overlapTokens}) ${headings}`);
+        });
+    }
 
-        // テキストをチャンクに分割（段落を尊重）
-        const chunks = this.splitTextIntoChunks(text, maxLength);
-        console.log(`テキストを${chunks.length}個のチャンクに分割しました。`);
+    /**
+     * 分割したチャンクを順番にAPIに送信し、チャンクごとの出力を返す
+     * 前のチャンクの要約を次のチャンクに引き継ぐため、チャプター内は必ず順番に処理する
+     */
+    private async summarizeLongText(plan: ChunkPlan, options: SummaryOptions = {}): Promise<string[]> {
+        if (config.debug) {
+            this.printChunkPlan(plan);
+        }
 
         // 各チャンクを個別に要約
         const summaries: string[] = [];
         let previousSummary = '';
-        
-        for (let i = 0; i < chunks.length; i++) {
-            console.log(`チャンク ${i + 1}/${chunks.length} を処理中...`);
-            
+
+        for (let i = 0; i < plan.chunks.length; i++) {
+            console.log(`チャンク ${i + 1}/${plan.chunks.length} を処理中... (${plan.chunks[i].tokens}トークン)`);
+
+            // チャプター全体の分量の目標を、重複部分を除いたトークン数の比率でチャンクに割り振る
+            const chunkTarget = options.lengthTarget
+                ? scaleLengthTarget(options.lengthTarget, (plan.chunks[i].tokens - plan.chunks[i].overlapTokens) / plan.totalTokens)
+                : undefined;
+
             // 前のチャンクの要約を文脈として渡す
             const chunkSummary = await this.summarizeChunkWithContext(
-                chunks[i], 
+                plan.chunks[i].text,
                 previousSummary,
                 i,
-                chunks.length,
-                options
+                plan.chunks.length,
+                options,
+                chunkTarget
             );
-            
+
             summaries.push(chunkSummary);
             previousSummary = chunkSummary; // 次のチャンクのために保存
         }
 
-        // 最終的な結合
-        return summaries.join('\n\n');
+        return summaries;
     }
 
     /**
-     * テキストを適切なサイズのチャンクに分割（オーバーラップ付き）
+     * チャプターテキストをAPIで処理し、結果をファイルに保存
      */
-    private splitTextIntoChunks(text: string, maxChunkSize: number): string[] {
-        const chunks: string[] = [];
-        const paragraphs = text.split(/\n\s*\n/); // 空行で段落を分割
-        const overlapSize = Math.floor(maxChunkSize * 0.1); // 10%のオーバーラップ
-
-        let currentChunk = '';
-        let previousParagraph = ''; // オーバーラップ用に前の段落を保持
-
-        for (let i = 0; i < paragraphs.length; i++) {
-            const paragraph = paragraphs[i];
-            
-            // 現在のチャンクに段落を追加するとサイズを超える場合
-            if (currentChunk.length + paragraph.length + 2 > maxChunkSize) {
-                // 現在のチャンクが空でない場合は追加
-                if (currentChunk.length > 0) {
-                    chunks.push(currentChunk);
-                    
-                    // 次のチャンクの開始時に前の段落の一部を含める（オーバーラップ）
-                    if (previousParagraph.length > 0 && previousParagraph.length <= overlapSize) {
-                        currentChunk = previousParagraph + '\n\n';
-                    } else {
-                        currentChunk = '';
-                    }
-                }
+    async processChapterFile(inputFilePath: string, outputFilePath: string, context?: ChapterContext): Promise<string> {
+        try {
+            // チャプターの文書モデルを読み込み
+            const document = loadChapterDocument(inputFilePath);
+            const sourceText = textFormatter.prepareForSummary(document);
+            console.log(`ファイル "${path.basename(inputFilePath)}" を読み込みました (${sourceText.length} 文字)`);
 
-                // 段落自体が最大サイズを超える場合は分割
-                if (paragraph.length > maxChunkSize) {
-                    const sentences = paragraph.split(/(?<=[.!?。！？])\s+/);
-                    let sentenceChunk = currentChunk; // オーバーラップを維持
-
-                    for (const sentence of sentences) {
-                        if (sentenceChunk.length + sentence.length + 1 > maxChunkSize) {
-                            chunks.push(sentenceChunk);
-                            // 前の文の最後をオーバーラップとして保持
-                            const lastSentenceMatch = sentenceChunk.match(/[^.!?。！？]+[.!?。！？]\s*$/);
-                            sentenceChunk = lastSentenceMatch ? lastSentenceMatch[0] + ' ' + sentence : sentence;
-                        } else {
-                            sentenceChunk += (sentenceChunk ? ' ' : '') + sentence;
-                        }
-                    }
+            // 分量モードと読み上げ速度から、チャプターの再生時間の目標を決める
+            const sourceLength = sourceText.length;
+            const lengthTarget = getLengthTarget(
+                config.narration.length,
+                sourceLength,
+                config.speech.rate,
+                config.narration.minutesPerChapter,
+                config.language.target
+            );
 
-                    if (sentenceChunk.length > 0) {
-                        currentChunk = sentenceChunk;
-                    }
-                } else {
-                    currentChunk += (currentChunk ? '\n\n' : '') + paragraph;
-                }
-            } else {
-                // チャンクに段落を追加
-                currentChunk += (currentChunk ? '\n\n' : '') + paragraph;
-            }
-            
-            previousParagraph = paragraph;
-        }
+            // 受信途中の出力は.partialファイルに書き出し、完了したときだけnarrated_*.txtに置き換える
+            // （中断された場合に途中までの出力を確認でき、--no-gptで書きかけのナレーションを読み込まないようにするため）
+            const partialPath = FileManager.getPartialPath(outputFilePath);
+            fs.writeFileSync(partialPath, '', 'utf8');
 
-        // 最後のチャンクを追加
-        if (currentChunk.length > 0) {
-            chunks.push(currentChunk);
-        }
+            // APIで要約
+            console.log(`LLM API (${this.provider.name}) でテキストを処理中... (目標 約${lengthTarget.minutes.toFixed(1)}分)`);
+            const output = await this.summarizeText(document, {context, chapterName: path.basename(inputFilePath), lengthTarget, partialPath});
+            let summary = output.narration;
 
-        return chunks;
-    }
+            // 番組ノート（要約・要点・キーワード・参考文献）を保存。構造化出力に失敗した場合は古いノートを残さない
+            const notesPath = getNotesPath(outputFilePath);
+            if (output.notes) {
+                saveChapterNotes(output.notes, notesPath);
+                console.log(`番組ノートを "${notesPath}" に保存しました`);
+            } else if (fs.existsSync(notesPath)) {
+                fs.unlinkSync(notesPath);
+            }
+            if (output.formatErrors.length > 0) {
+                const message = `構造化出力の検証に失敗したため、番組ノートなしのプレーンテキストとして保存しました (${output.formatErrors.slice(0, 3).join(' / ')})`;
+                console.warn(`警告: ${message}`);
+                this.warnings.push({fileName: path.basename(inputFilePath), message});
+            }
 
-    /**
-     * チャプターテキストをAPIで処理し、結果をファイルに保存
-     */
-    async processChapterFile(inputFilePath: string, outputFilePath: string): Promise<void> {
-        try {
-            // ファイルからテキストを読み込み
-            const text = fs.readFileSync(inputFilePath, 'utf8');
-            console.log(`ファイル "${path.basename(inputFilePath)}" を読み込みました (${text.length} 文字)`);
+            // 原文に比べて極端に短い場合は、生成が途中で終わった可能性がある
+            // ダイジェストは短いのが正常で、翻訳する場合は言語によって文字数が変わるため対象外
+            const outputRatio = summary.length / sourceLength;
+            const isTranslation = (config.language.source || config.language.target) !== config.language.target;
+            if (config.narration.length !== 'digest' && !isTranslation && sourceLength >= MIN_SOURCE_LENGTH_FOR_RATIO_CHECK && outputRatio < config.narration.minOutputRatio) {
+                const message = `ナレーションが原文に比べて短すぎます (原文 ${sourceLength}文字 / ナレーション ${summary.length}文字, ${(outputRatio * 100).toFixed(1)}%)`;
+                console.warn(`警告: ${message}`);
+                this.warnings.push({fileName: path.basename(inputFilePath), message});
+            }
 
-            // APIで要約
-            console.log('ChatGPT APIでテキストを処理中...');
-            const summary = await this.summarizeText(text);
+            // 再生時間が目標からかけ離れていないか確認
+            const lengthMessage = checkLengthTarget(summary, lengthTarget, config.speech.rate, config.language.target);
+            if (lengthMessage) {
+                console.warn(`警告: ${lengthMessage}`);
+                this.warnings.push({fileName: path.basename(inputFilePath), message: lengthMessage});
+            }
+
+            // 対話モードでは話者付きの台本として保存し、音声合成時に話者ごとの声で読み上げる
+            if (config.narration.mode === 'dialogue') {
+                const script = parseDialogueScript(summary, config.language.target === 'en' ? ENGLISH_SPEAKER_LABELS : SPEAKER_LABELS);
+                const scriptPath = getScriptPath(outputFilePath);
+                saveDialogueScript(script, scriptPath);
+                summary = scriptToText(script);
+                console.log(`台本 (${script.turns.length}発話) を "${scriptPath}" に保存しました`);
+            }
 
-            // 結果をファイルに保存
-            fs.writeFileSync(outputFilePath, summary, 'utf8');
+            // 結果をファイルに保存（.partialに書き込んでから置き換える）
+            const previous = fs.existsSync(outputFilePath) ? fs.readFileSync(outputFilePath, 'utf8') : null;
+            fs.writeFileSync(partialPath, summary, 'utf8');
+            fs.renameSync(partialPath, outputFilePath);
             console.log(`変換結果を "${outputFilePath}" に保存しました`);
 
-            return;
+            // 内容が変わった場合は前の版を残し、レビュー状態を確認待ちに戻す
+            if (recordNarration(outputFilePath, previous) === 'updated') {
+                console.log('以前のナレーションを過去の版として保存しました（レビュー状態: 確認待ち）');
+            }
+
+            return summary;
         } catch (error) {
             console.error(`ファイル "${inputFilePath}" の処理中にエラーが発生しました:`, error);
             throw error;
@@ -355,66 +950,138 @@ ${chunkIndex > 0 ? `### 重要な注意事項：
 
     /**
      * フィルタリングされたチャプターを処理
+     * チャプター単位で並列処理し（同時実行数はconfig.llm.concurrency）、結果は元の順番で返す
+     * bookを渡すと、各チャプターに本の構成と前章の振り返りを伝える
      */
-    async processValidChapters(validFiles: string[], outputDir: string): Promise<string[]> {
+    async processValidChapters(validFiles: string[], outputDir: string, book?: BookContext): Promise<NarrationResult> {
         // 出力ディレクトリの作成
         if (!fs.existsSync(outputDir)) {
             fs.mkdirSync(outputDir, {recursive: true});
         }
 
-        const processedFiles: string[] = [];
+        // API利用料は書籍ごとの台帳に記録する
+        this.ledger = new CostLedger(path.join(outputDir, 'cost-ledger.json'));
+        this.warnings = [];
+        this.qualityReports.clear();
+
+        const failures: (FailedChapter | null)[] = new Array(validFiles.length).fill(null);
+        const narrations: (string | null)[] = new Array(validFiles.length).fill(null);
+        let fatalError: LLMRequestError | null = null;
+        let completedCount = 0;
 
-        // 各ファイルを順番に処理
-        for (let i = 0; i < validFiles.length; i++) {
-            const inputFile = validFiles[i];
+        if (config.llm.concurrency > 1) {
+            console.log(`${config.llm.concurrency}チャプターずつ並列に処理します`);
+        }
+
+        const results = await runWithConcurrency(validFiles, config.llm.concurrency, async (inputFile, i) => {
             const fileName = path.basename(inputFile);
             const outputFile = path.join(outputDir, `narrated_${fileName}`);
 
+            // 致命的なエラーが発生した後は新しいチャプターを開始しない
+            if (fatalError) {
+                failures[i] = {fileName, reason: '致命的なエラーにより未処理'};
+                return null;
+            }
+
             console.log(`\n[${i + 1}/${validFiles.length}] チャプター "${fileName}" を処理中...`);
 
             try {
-                await this.processChapterFile(inputFile, outputFile);
-                processedFiles.push(outputFile);
+                const context = book ? this.createChapterContext(book, validFiles, narrations, i, outputDir) : undefined;
+                narrations[i] = await this.processChapterFile(inputFile, outputFile, context);
+                completedCount++;
+                console.log(`[${i + 1}/${validFiles.length}] チャプター "${fileName}" が完了しました (完了 ${completedCount}/${validFiles.length})`);
+                return outputFile;
             } catch (error) {
-                console.error(`エラーが発生しました。スキップします: ${error}`);
+                const classified = classifyError(error);
+                failures[i] = {fileName, reason: classified.message};
+
+                // 認証エラーやモデル指定の誤りは残りのチャプターでも失敗するため中断
+                if (classified.fatal) {
+                    if (!fatalError) {
+                        console.error(`致命的なエラーのため、残りのチャプターの処理を中断します: ${classified.message}`);
+                    }
+                    fatalError = classified;
+                } else {
+                    console.error(`エラーが発生しました。スキップします: ${classified.message}`);
+                }
+                return null;
             }
+        });
+
+        if (this.qualityReports.size > 0) {
+            this.saveQualityReport(outputDir);
         }
 
-        return processedFiles;
+        return {
+            processedFiles: results.filter((file): file is string => file !== null),
+            failedChapters: failures.filter((failure): failure is FailedChapter => failure !== null),
+            warnings: [...this.warnings].sort((a, b) => a.fileName.localeCompare(b.fileName))
+        };
     }
 
     /**
-     * ディレクトリ内の複数チャプターを一括処理
+     * チャプターの本全体の構成の中での位置を取得
+     * 一部のチャプターだけを処理する場合も、本全体を処理したときと同じ位置づけになるようにする
      */
-    async processAllChapters(inputDir: string, outputDir: string): Promise<string[]> {
-        // 入力ディレクトリのファイル一覧を取得
-        const files = fs.readdirSync(inputDir)
-            .filter(file => file.endsWith('.txt'))
-            .sort(); // 名前順にソート
-
-        // 出力ディレクトリの作成
-        if (!fs.existsSync(outputDir)) {
-            fs.mkdirSync(outputDir, {recursive: true});
-        }
-
-        const processedFiles: string[] = [];
+    private findOutlinePosition(book: BookContext, file: string, fallbackIndex: number): number {
+        const position = book.outline.findIndex(item => item.fileName === path.basename(file));
+        return position >= 0 ? position : fallbackIndex;
+    }
 
-        // 各ファイルを処理
-        for (let i = 0; i < files.length; i++) {
-            const file = files[i];
-            const inputFilePath = path.join(inputDir, file);
-            const outputFilePath = path.join(outputDir, `narrated_${file}`);
+    /**
+     * チャプターの位置づけと前章の振り返りを組み立てる
+     * 順番に処理している場合は前章のナレーションの末尾を、
+     * 並列処理で前章がまだ終わっていない場合は前章の見出しを振り返りに使う
+     * 前章が今回の処理対象にない場合は、保存済みのナレーションか前章の原文を使う
+     */
+    private createChapterContext(
+        book: BookContext,
+        validFiles: string[],
+        narrations: (string | null)[],
+        index: number,
+        outputDir: string
+    ): ChapterContext {
+        let previousRecap: string | undefined;
+        const glossary = this.glossary ? findGlossaryEntries(this.glossary, textFormatter.prepareForSummary(loadChapterDocument(validFiles[index]))) : undefined;
+        const position = this.findOutlinePosition(book, validFiles[index], index);
+        const previousFileName = position > 0 ? book.outline[position - 1]?.fileName : undefined;
 
-            try {
-                console.log(`[${i + 1}/${files.length}] ファイル処理中: ${file}`);
-                await this.processChapterFile(inputFilePath, outputFilePath);
-                processedFiles.push(outputFilePath);
-            } catch (error) {
-                console.error(`ファイル "${file}" の処理を省略します:`, error);
+        if (index > 0 && path.basename(validFiles[index - 1]) === previousFileName) {
+            if (config.llm.concurrency <= 1 && narrations[index - 1]) {
+                previousRecap = createRecapFromNarration(narrations[index - 1]!);
+            } else {
+                previousRecap = createRecapFromSource(loadChapterDocument(validFiles[index - 1]), config.language.target) || undefined;
+            }
+        } else if (previousFileName) {
+            const previousNarration = path.join(outputDir, `narrated_${previousFileName}`);
+            const previousSource = path.join(path.dirname(validFiles[index]), previousFileName);
+            if (fs.existsSync(previousNarration)) {
+                previousRecap = createRecapFromNarration(fs.readFileSync(previousNarration, 'utf8'));
+            } else if (fs.existsSync(previousSource)) {
+                previousRecap = createRecapFromSource(loadChapterDocument(previousSource), config.language.target) || undefined;
             }
-
         }
 
-        return processedFiles;
+        return {
+            book,
+            index: position,
+            total: book.outline.length,
+            title: book.outline[position]?.title || path.basename(validFiles[index], '.txt'),
+            previousRecap,
+            glossary
+        };
+    }
+
+    /**
+     * ディレクトリ内の複数チャプターを一括処理
+     */
+    async processAllChapters(inputDir: string, outputDir: string): Promise<NarrationResult> {
+        // 入力ディレクトリのファイル一覧を取得
+        const files = fs.readdirSync(inputDir)
+            .filter(file => file.endsWith('.txt'))
+            .sort() // 名前順にソート
+            .map(file => path.join(inputDir, file));
+
+        return this.processValidChapters(files, outputDir);
     }
 }
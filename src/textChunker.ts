@@ -0,0 +1,241 @@
+import {textFormatter} from './textFormatter';
+import {ChapterDocument, DocumentBlock} from './chapterDocument';
+import {countTokens} from './tokenCounter';
+
+/**
+ * 分割の単位（見出しで区切った節、段落、文）
+ */
+interface ChunkUnit {
+    text: string;
+    tokens: number;
+    heading?: string;
+}
+
+/**
+ * 分割されたチャンク
+ */
+export interface TextChunk {
+    text: string;
+    tokens: number;
+    headings: string[];      // チャンクに含まれる見出し
+    overlapTokens: number;   // 前のチャンクと重複している先頭部分のトークン数
+}
+
+/**
+ * チャプターの分割計画
+ */
+export interface ChunkPlan {
+    budgetTokens: number;
+    totalTokens: number;
+    chunks: TextChunk[];
+}
+
+// HTMLの見出し（h1〜h3）の開始位置
+const HTML_HEADING_REGEX = /(?=<h[1-3][\s>])/i;
+
+// HTMLのブロック要素の終了位置（段落単位の分割に使用）
+const HTML_BLOCK_END_REGEX = /(?<=<\/(?:p|div|li|pre|blockquote|table|ul|ol|dl|figure|section|h[1-6])>)/i;
+
+// プレーンテキストの見出し（Markdown形式）の開始位置
+const PLAIN_HEADING_REGEX = /(?=^#{1,3}\s)/m;
+
+/**
+ * テキストにHTMLタグが含まれているか確認
+ */
+function isHtml(text: string): boolean {
+    return /<\/?[a-z][\s\S]*>/i.test(text);
+}
+
+/**
+ * 節の先頭にある見出しのテキストを取得
+ */
+function extractHeading(section: string): string | undefined {
+    const htmlMatch = section.match(/^\s*<h[1-3][^>]*>([\s\S]*?)<\/h[1-3]>/i);
+    if (htmlMatch) {
+        return htmlMatch[1].replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim() || undefined;
+    }
+
+    const plainMatch = section.match(/^#{1,3}\s+(.+)$/m);
+    return plainMatch ? plainMatch[1].trim() : undefined;
+}
+
+/**
+ * 原文を整形済みテキストの単位に変換
+ */
+function toUnit(raw: string, model: string, heading?: string): ChunkUnit | null {
+    const text = textFormatter.prepareForSummary(raw);
+    if (text.length === 0) {
+        return null;
+    }
+    return {text, tokens: countTokens(text, model), heading};
+}
+
+/**
+ * 予算を超える節を段落、さらに文に分割する
+ */
+function splitOversizedSection(section: string, model: string, budgetTokens: number, heading?: string): ChunkUnit[] {
+    const paragraphs = isHtml(section)
+        ? section.split(HTML_BLOCK_END_REGEX)
+        : section.split(/\n\s*\n/);
+
+    const units: ChunkUnit[] = [];
+    for (const paragraph of paragraphs) {
+        // 見出しは節の最初の単位にだけ付ける
+        const unit = toUnit(paragraph, model, units.length === 0 ? heading : undefined);
+        if (!unit) continue;
+
+        if (unit.tokens <= budgetTokens) {
+            units.push(unit);
+            continue;
+        }
+
+        // 段落自体が予算を超える場合は文で分割
+        for (const sentence of unit.text.split(/(?<=[。！？.!?])\s*/)) {
+            if (sentence.trim().length === 0) continue;
+            units.push({text: sentence, tokens: countTokens(sentence, model)});
+        }
+    }
+
+    return units;
+}
+
+/**
+ * 原文を見出し単位の節に分け、予算を超える節は段落・文に分割する
+ */
+function buildUnits(rawText: string, model: string, budgetTokens: number): ChunkUnit[] {
+    const sections = rawText.split(isHtml(rawText) ? HTML_HEADING_REGEX : PLAIN_HEADING_REGEX);
+    const units: ChunkUnit[] = [];
+
+    for (const section of sections) {
+        const heading = extractHeading(section);
+        const unit = toUnit(section, model, heading);
+        if (!unit) continue;
+
+        if (unit.tokens <= budgetTokens) {
+            units.push(unit);
+        } else {
+            units.push(...splitOversizedSection(section, model, budgetTokens, heading));
+        }
+    }
+
+    return units;
+}
+
+/**
+ * 文書モデルを見出し（h1〜h3）単位の節に分け、予算を超える節はブロック・文に分割する
+ */
+function buildDocumentUnits(document: ChapterDocument, model: string, budgetTokens: number): ChunkUnit[] {
+    const sections: DocumentBlock[][] = [];
+    for (const block of document.blocks) {
+        if (sections.length === 0 || (block.type === 'heading' && block.level <= 3)) {
+            sections.push([]);
+        }
+        sections[sections.length - 1].push(block);
+    }
+
+    const units: ChunkUnit[] = [];
+    for (const blocks of sections) {
+        const heading = blocks[0].type === 'heading' && blocks[0].level <= 3 ? blocks[0].text : undefined;
+        const text = textFormatter.formatDocument({blocks});
+        if (text.length === 0) continue;
+
+        const tokens = countTokens(text, model);
+        if (tokens <= budgetTokens) {
+            units.push({text, tokens, heading});
+            continue;
+        }
+
+        for (const block of blocks) {
+            // 見出しは節の最初の単位にだけ付ける
+            const blockText = textFormatter.formatDocument({blocks: [block]});
+            if (blockText.length === 0) continue;
+            const unit: ChunkUnit = {text: blockText, tokens: countTokens(blockText, model), heading: block === blocks[0] ? heading : undefined};
+
+            if (unit.tokens <= budgetTokens) {
+                units.push(unit);
+                continue;
+            }
+
+            // ブロック自体が予算を超える場合は文で分割
+            for (const sentence of unit.text.split(/(?<=[。！？.!?])\s*/)) {
+                if (sentence.trim().length === 0) continue;
+                units.push({text: sentence, tokens: countTokens(sentence, model)});
+            }
+        }
+    }
+
+    return units;
+}
+
+/**
+ * 直前のチャンクの末尾から、重複させる単位を取り出す
+ */
+function takeOverlap(units: ChunkUnit[], overlapTokens: number): ChunkUnit[] {
+    const overlap: ChunkUnit[] = [];
+    let tokens = 0;
+
+    for (let i = units.length - 1; i >= 0; i--) {
+        if (tokens + units[i].tokens > overlapTokens) break;
+        overlap.unshift(units[i]);
+        tokens += units[i].tokens;
+    }
+
+    return overlap;
+}
+
+/**
+ * チャンクを組み立てる
+ */
+function toChunk(units: ChunkUnit[], overlapCount: number): TextChunk {
+    return {
+        text: units.map(unit => unit.text).join('\n\n'),
+        tokens: units.reduce((sum, unit) => sum + unit.tokens, 0),
+        headings: units.slice(overlapCount).filter(unit => unit.heading).map(unit => unit.heading!),
+        overlapTokens: units.slice(0, overlapCount).reduce((sum, unit) => sum + unit.tokens, 0)
+    };
+}
+
+/**
+ * チャプターの原文をトークン数の予算に収まるチャンクに分割する
+ * まず見出しの構造で区切り、収まらない節は段落、さらに文で区切る
+ * @param source チャプターの文書モデル、または原文（HTMLまたはプレーンテキスト）
+ * @param model トークン数を数えるモデル
+ * @param budgetTokens 1チャンクあたりの最大トークン数
+ * @param overlapTokens 前のチャンクと重複させるトークン数
+ */
+export function planChunks(source: string | ChapterDocument, model: string, budgetTokens: number, overlapTokens: number): ChunkPlan {
+    const units = typeof source === 'string'
+        ? buildUnits(source, model, budgetTokens)
+        : buildDocumentUnits(source, model, budgetTokens);
+    const chunks: TextChunk[] = [];
+
+    let current: ChunkUnit[] = [];
+    let currentTokens = 0;
+    let overlapCount = 0;
+
+    for (const unit of units) {
+        if (currentTokens + unit.tokens > budgetTokens && current.length > overlapCount) {
+            chunks.push(toChunk(current, overlapCount));
+
+            // 次のチャンクの先頭に前のチャンクの末尾を重複させる（収まらない場合は重複なし）
+            const overlap = takeOverlap(current.slice(overlapCount), overlapTokens);
+            const overlapSum = overlap.reduce((sum, item) => sum + item.tokens, 0);
+            current = overlapSum + unit.tokens <= budgetTokens ? overlap : [];
+            currentTokens = current.reduce((sum, item) => sum + item.tokens, 0);
+            overlapCount = current.length;
+        }
+
+        current.push(unit);
+        currentTokens += unit.tokens;
+    }
+
+    if (current.length > overlapCount) {
+        chunks.push(toChunk(current, overlapCount));
+    }
+
+    return {
+        budgetTokens,
+        totalTokens: units.reduce((sum, unit) => sum + unit.tokens, 0),
+        chunks
+    };
+}
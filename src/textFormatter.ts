@@ -1,4 +1,11 @@
 import * as cheerio from 'cheerio';
+import {applyReadings, GlossaryEntry} from './glossary';
+import {ChapterDocument, DocumentBlock, parseChapterDocument, TableBlock} from './chapterDocument';
+import {config} from './config';
+import {NarrationLanguage} from './language';
+
+// 大きな表の概要に含める行の見出し（1列目）の数
+const TABLE_SUMMARY_ROW_LABELS = 10;
 
 /**
  * テキストフォーマッター
@@ -7,8 +14,14 @@ import * as cheerio from 'cheerio';
 class TextFormatter {
     /**
      * 要約のためにテキストを前処理
+     * @param source チャプターの文書モデル、またはHTML・プレーンテキスト
      */
-    prepareForSummary(text: string): string {
+    prepareForSummary(source: string | ChapterDocument): string {
+        if (typeof source !== 'string') {
+            return this.formatDocument(source);
+        }
+        const text = source;
+
         // HTML要素が含まれているか確認
         if (this.containsHtmlTags(text)) {
             return this.cleanHtml(text);
@@ -18,6 +31,90 @@ class TextFormatter {
         return this.cleanPlainText(text);
     }
 
+    /**
+     * 文書モデルを要約・読み上げ用のテキストに変換（ブロックごとに空行で区切る）
+     */
+    formatDocument(document: ChapterDocument | {blocks: DocumentBlock[]}): string {
+        return document.blocks
+            .map(block => this.formatBlock(block))
+            .filter(text => text.length > 0)
+            .join('\n\n');
+    }
+
+    /**
+     * ブロックをテキストに変換
+     */
+    private formatBlock(block: DocumentBlock): string {
+        switch (block.type) {
+            case 'heading':
+            case 'paragraph':
+                return this.simplifyUrls(block.text);
+            case 'list':
+                return block.items.map(item => `${'  '.repeat(item.level)}- ${this.simplifyUrls(item.text)}`).join('\n');
+            case 'code':
+                return `[コードブロック]: ${block.caption ? `${block.caption} ` : ''}${block.code}`;
+            case 'table':
+                return this.formatTable(block);
+            case 'figure':
+                if (block.caption) return `[図: ${block.caption}]`;
+                return block.alt ? `[画像: ${block.alt}]` : '[画像]';
+            case 'footnote':
+                return `[脚注] ${this.simplifyUrls(block.text)}`;
+            case 'aside': {
+                const inner = this.formatDocument(block);
+                return `[コラム${block.title ? `: ${block.title}` : ''}] ${inner}`.trim();
+            }
+            case 'quote':
+                return `[引用] ${this.simplifyUrls(block.text)}`;
+        }
+    }
+
+    /**
+     * 表を読み上げられるテキストに変換
+     * データのセル数が上限以下なら見出し行の列名を添えて1行ずつ説明し、上限を超える場合は列と行の概要にまとめる
+     * @param language ナレーションの言語（プロンプトと--no-gptの読み上げの両方で使うため出力言語に合わせる）
+     */
+    formatTable(table: TableBlock, language: NarrationLanguage = config.language.target): string {
+        const en = language === 'en';
+        const label = en
+            ? (table.caption ? `[Table: ${table.caption}]` : '[Table]')
+            : (table.caption ? `[表: ${table.caption}]` : '[表]');
+        const separator = en ? ', ' : '、';
+        const header = table.header.filter(cell => cell.length > 0);
+        const width = Math.max(table.header.length, ...table.rows.map(row => row.length));
+        const columns = en ? `Columns: ${header.join(separator)}.` : `列: ${header.join(separator)}。`;
+
+        if (table.rows.length === 0) {
+            return header.length > 0 ? `${label} ${columns}` : label;
+        }
+
+        if (table.rows.length * width > config.narration.tableMaxCells) {
+            const rowLabels = table.rows.map(row => row.find(cell => cell.length > 0) || '').filter(cell => cell.length > 0);
+            const shown = rowLabels.slice(0, TABLE_SUMMARY_ROW_LABELS).join(separator);
+            const more = rowLabels.length > TABLE_SUMMARY_ROW_LABELS;
+            return [
+                label,
+                header.length > 0 ? columns : (en ? `${width} columns.` : `全${width}列。`),
+                en
+                    ? `Rows: ${shown}${more ? ', and more' : ''} (${table.rows.length} rows in total).`
+                    : `行: ${shown}${more ? ' ほか' : ''}（全${table.rows.length}行）。`
+            ].join('\n');
+        }
+
+        return [label, ...table.rows.map(row => this.describeTableRow(row, table.header, language))].join('\n');
+    }
+
+    /**
+     * 表の1行を「列名はセルの値」（英語は "column: value"）の形で説明（見出し行がない場合はセルを並べる）
+     */
+    private describeTableRow(row: string[], header: string[], language: NarrationLanguage): string {
+        const en = language === 'en';
+        const parts = row
+            .map((cell, i) => (cell.length > 0 && header[i] ? (en ? `${header[i]}: ${cell}` : `${header[i]}は${cell}`) : cell))
+            .filter(part => part.length > 0);
+        return en ? `${parts.join('; ')}.` : `${parts.join('、')}。`;
+    }
+
     /**
      * テキストにHTMLタグが含まれているか確認
      */
@@ -63,10 +160,12 @@ class TextFormatter {
                 }
             });
 
-            // 表を簡略化
+            // 表を読み上げられるテキストに変換
             $('table').each((_, el) => {
                 const $el = $(el);
-                $el.replaceWith('[表が含まれています]');
+                const document = parseChapterDocument($.html($el), {title: '', order: 0, href: ''});
+                const table = document.blocks.find((block): block is TableBlock => block.type === 'table');
+                $el.replaceWith(table ? ` ${this.formatTable(table)} ` : '');
             });
 
             // 本文テキストを抽出して整形
@@ -85,6 +184,13 @@ class TextFormatter {
         }
     }
 
+    /**
+     * URLを[URL]に置き換える
+     */
+    private simplifyUrls(text: string): string {
+        return text.replace(/https?:\/\/[^\s]+/g, '[URL]');
+    }
+
     /**
      * プレーンテキストをクリーニング
      */
@@ -93,7 +199,7 @@ class TextFormatter {
         let cleaned = text.replace(/\s+/g, ' ');
 
         // URLをシンプルに
-        cleaned = cleaned.replace(/https?:\/\/[^\s]+/g, '[URL]');
+        cleaned = this.simplifyUrls(cleaned);
 
         // 複数の改行を1つに
         cleaned = cleaned.replace(/\n{3,}/g, '\n\n');
@@ -103,10 +209,18 @@ class TextFormatter {
 
     /**
      * 音声用にナレーション済みテキストを最終調整
+     * @param readings 用語集の読み（本文中の用語を読みに置き換える。カタカナの読みのため日本語のみ）
+     * @param language ナレーションの言語
      */
-    prepareForSpeech(text: string): string {
+    prepareForSpeech(text: string, readings: GlossaryEntry[] = [], language: NarrationLanguage = 'ja'): string {
+        if (language === 'en') {
+            return this.prepareEnglishForSpeech(text);
+        }
+
+        // 用語集の読みに置き換え（記号の置換より前に行う）
+        let speechText = applyReadings(text, readings);
+
         // 音声合成に不向きな文字を置換
-        let speechText = text;
 
         // カッコ内のURLや参照を削除
         speechText = speechText.replace(/\(https?:\/\/[^)]+\)/g, '');
@@ -119,8 +233,7 @@ class TextFormatter {
         speechText = speechText.replace(/--/g, 'ダッシュ');
 
         // 特殊な表記を置き換え
-        speechText = speechText.replace(/\[コードブロック\]:/g, 'コードの例として、');
-        speechText = speechText.replace(/\[URL\]/g, 'ウェブサイトのアドレス');
+        speechText = this.replaceMarkers(speechText, 'ja');
 
         // 括弧を音声で区別しやすいように調整
         speechText = speechText.replace(/\(/g, ' （');
@@ -150,6 +263,62 @@ class TextFormatter {
         return speechText.trim();
     }
 
+    /**
+     * 整形時に付けた印（[コードブロック]・[図: …]・[表]など）を読み上げの言葉に置き換える
+     * 印は要約用のテキストと共通のため、どちらの言語の印もナレーションの言語の言葉にする
+     */
+    private replaceMarkers(text: string, language: NarrationLanguage): string {
+        const en = language === 'en';
+        const labeled = (ja: string, english: string) => (_: string, label?: string) => en
+            ? (label ? `${english}, ${label}. ` : `${english}. `)
+            : (label ? `${ja}「${label}」。` : `${ja}。`);
+
+        return text
+            .replace(/\[コードブロック\]:/g, en ? 'Here is a code example: ' : 'コードの例として、')
+            .replace(/\[URL\]/g, en ? 'a web address' : 'ウェブサイトのアドレス')
+            .replace(/\[脚注\]/g, en ? 'Footnote: ' : '脚注として、')
+            .replace(/\[引用\]/g, en ? 'Quote: ' : '引用すると、')
+            .replace(/\[(?:表|Table)(?:: ([^\]]+))?\]/g, labeled('表', 'Table'))
+            .replace(/\[コラム(?:: ([^\]]+))?\]/g, labeled('コラム', 'Sidebar'))
+            .replace(/\[図(?:: ([^\]]+))?\]/g, labeled('図', 'Figure'))
+            .replace(/\[画像: ([^\]]+)\]/g, labeled('画像', 'Image'))
+            .replace(/\[画像\]/g, '')
+            .replace(/ \(リンク\)/g, en ? '' : '$&');
+    }
+
+    /**
+     * 英語のナレーションを音声用に最終調整
+     */
+    private prepareEnglishForSpeech(text: string): string {
+        let speechText = text;
+
+        // URLを削除
+        speechText = speechText.replace(/\(?https?:\/\/[^\s)]+\)?/g, '');
+
+        // Markdownの強調記号を削除
+        speechText = speechText.replace(/\*\*?([^*\n]+)\*\*?/g, '$1');
+
+        // 長い記号を置き換え
+        speechText = speechText.replace(/\s*---?\s*/g, ', ');
+
+        // 特殊な表記を置き換え
+        speechText = this.replaceMarkers(speechText, 'en');
+
+        // 音声合成エンジンが読みにくい記号を調整
+        speechText = speechText.replace(/\+/g, ' plus ');
+        speechText = speechText.replace(/\*/g, ' asterisk ');
+        speechText = speechText.replace(/\//g, ' slash ');
+        speechText = speechText.replace(/\\/g, ' backslash ');
+        speechText = speechText.replace(/\|/g, ' pipe ');
+        speechText = speechText.replace(/\^/g, ' caret ');
+
+        // 余分なスペースを削除（段落の区切りは残す）
+        speechText = speechText.replace(/[ \t]+/g, ' ');
+        speechText = speechText.replace(/\n{3,}/g, '\n\n');
+
+        return speechText.trim();
+    }
+
     /**
      * ファイル名から人間が読みやすいタイトルを生成
      */
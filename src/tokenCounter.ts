@@ -0,0 +1,46 @@
+import {getEncoding, Tiktoken, TiktokenEncoding} from 'js-tiktoken';
+import {NarrationLanguage} from './language';
+
+// 1文字あたりのトークン数を測るための言語ごとの見本（出力の文字数の目標をトークン数に換算するのに使う）
+const LANGUAGE_SAMPLES: Record<NarrationLanguage, string> = {
+    ja: 'この章では、マイクロサービスの設計で重要になるサービスの境界の決め方と、チームの構成との関係について説明します。'
+        + 'APIの互換性を保ちながら、既存のシステムから段階的に移行する方法も紹介します。',
+    en: 'In this chapter, we look at how to draw service boundaries in a microservice architecture and how they relate to team structure. '
+        + 'We also cover ways to migrate from an existing system step by step while keeping the APIs compatible.'
+};
+
+// エンコーダーは生成コストが高いため使い回す
+const encoders = new Map<TiktokenEncoding, Tiktoken>();
+
+/**
+ * モデル名から使用するトークナイザーを判定
+ * OpenAI以外のモデル（Claudeやローカルモデル）はo200k_baseで近似する
+ */
+export function getEncodingName(model: string): TiktokenEncoding {
+    if (/^(gpt-4(?!o|\.)|gpt-3\.5|text-embedding-3|text-embedding-ada)/.test(model)) {
+        return 'cl100k_base';
+    }
+    return 'o200k_base';
+}
+
+/**
+ * テキストのトークン数をモデルのトークナイザーで数える
+ */
+export function countTokens(text: string, model: string): number {
+    const encodingName = getEncodingName(model);
+    let encoder = encoders.get(encodingName);
+    if (!encoder) {
+        encoder = getEncoding(encodingName);
+        encoders.set(encodingName, encoder);
+    }
+    return encoder.encode(text).length;
+}
+
+/**
+ * 文字数をモデルのトークナイザーでのトークン数に換算する
+ * @param sample 1文字あたりのトークン数を測るテキスト（出力と同じ言語の原文など）。未指定時は言語ごとの見本を使う
+ */
+export function charsToTokens(chars: number, model: string, language: NarrationLanguage, sample?: string): number {
+    const text = sample && sample.length > 0 ? sample : LANGUAGE_SAMPLES[language];
+    return Math.ceil(chars * countTokens(text, model) / text.length);
+}
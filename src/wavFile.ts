@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+
+// 生成するWAVの形式（モノラル・16bit・8kHz）
+const SAMPLE_RATE = 8000;
+const BITS_PER_SAMPLE = 16;
+const CHANNELS = 1;
+const BYTES_PER_SECOND = SAMPLE_RATE * CHANNELS * (BITS_PER_SAMPLE / 8);
+const HEADER_SIZE = 44;
+
+// トーンの周波数と音量（最大振幅に対する割合）
+const TONE_FREQUENCY = 440;
+const TONE_VOLUME = 0.05;
+
+/**
+ * PCMデータにWAVのヘッダーを付ける
+ */
+function buildWav(pcm: Buffer): Buffer {
+    const header = Buffer.alloc(HEADER_SIZE);
+    header.write('RIFF', 0, 'ascii');
+    header.writeUInt32LE(36 + pcm.length, 4);
+    header.write('WAVE', 8, 'ascii');
+    header.write('fmt ', 12, 'ascii');
+    header.writeUInt32LE(16, 16);                   // fmtチャンクのサイズ
+    header.writeUInt16LE(1, 20);                    // リニアPCM
+    header.writeUInt16LE(CHANNELS, 22);
+    header.writeUInt32LE(SAMPLE_RATE, 24);
+    header.writeUInt32LE(BYTES_PER_SECOND, 28);
+    header.writeUInt16LE(CHANNELS * (BITS_PER_SAMPLE / 8), 32);
+    header.writeUInt16LE(BITS_PER_SAMPLE, 34);
+    header.write('data', 36, 'ascii');
+    header.writeUInt32LE(pcm.length, 40);
+    return Buffer.concat([header, pcm]);
+}
+
+/**
+ * 指定した長さのPCMデータを生成（toneがfalseなら無音）
+ */
+function createPcm(durationSeconds: number, tone: boolean): Buffer {
+    const sampleCount = Math.round(durationSeconds * SAMPLE_RATE);
+    const pcm = Buffer.alloc(sampleCount * 2);
+    if (tone) {
+        const amplitude = 32767 * TONE_VOLUME;
+        for (let i = 0; i < sampleCount; i++) {
+            pcm.writeInt16LE(Math.round(amplitude * Math.sin(2 * Math.PI * TONE_FREQUENCY * i / SAMPLE_RATE)), i * 2);
+        }
+    }
+    return pcm;
+}
+
+/**
+ * 指定した長さの小さなトーンのWAVファイルを書き出す
+ */
+export function writeToneWav(outputPath: string, durationSeconds: number): void {
+    fs.writeFileSync(outputPath, buildWav(createPcm(durationSeconds, true)));
+}
+
+/**
+ * WAVファイルを間に無音を挟んで結合する
+ * このモジュールで書き出した形式のWAVファイルのみに対応
+ */
+export function concatWavFiles(inputPaths: string[], outputPath: string, gapSeconds: number): void {
+    const gap = createPcm(gapSeconds, false);
+    const parts: Buffer[] = [];
+    inputPaths.forEach((inputPath, index) => {
+        parts.push(fs.readFileSync(inputPath).subarray(HEADER_SIZE));
+        if (index < inputPaths.length - 1) {
+            parts.push(gap);
+        }
+    });
+    fs.writeFileSync(outputPath, buildWav(Buffer.concat(parts)));
+}
+
+/**
+ * WAVファイルの長さ（秒）をヘッダーから取得
+ * @returns WAVファイルでない場合はnull
+ */
+export function readWavDuration(filePath: string): number | null {
+    const header = Buffer.alloc(HEADER_SIZE);
+    const fd = fs.openSync(filePath, 'r');
+    try {
+        if (fs.readSync(fd, header, 0, HEADER_SIZE, 0) < HEADER_SIZE) {
+            return null;
+        }
+    } finally {
+        fs.closeSync(fd);
+    }
+
+    if (header.toString('ascii', 0, 4) !== 'RIFF' || header.toString('ascii', 8, 12) !== 'WAVE') {
+        return null;
+    }
+    return header.readUInt32LE(40) / header.readUInt32LE(28);
+}
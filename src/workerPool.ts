@@ -0,0 +1,32 @@
+/**
+ * 同時実行数を制限して非同期処理を実行する
+ * 結果は入力と同じ順番で返す
+ * @param items 処理対象の配列
+ * @param concurrency 同時に実行する最大数
+ * @param worker 各要素を処理する関数
+ */
+export async function runWithConcurrency<T, R>(
+    items: T[],
+    concurrency: number,
+    worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    const limit = Math.max(1, Math.min(concurrency, items.length));
+    let nextIndex = 0;
+
+    // 各ワーカーは空きが出るたびに次の要素を取り出して処理する
+    const runWorker = async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            results[index] = await worker(items[index], index);
+        }
+    };
+
+    const workers: Promise<void>[] = [];
+    for (let i = 0; i < limit; i++) {
+        workers.push(runWorker());
+    }
+    await Promise.all(workers);
+
+    return results;
+}